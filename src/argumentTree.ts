@@ -0,0 +1,240 @@
+/**
+ * Argument Trees
+ *
+ * Answers "why do we believe this claim?" by walking Supports / Opposes /
+ * Informs relations backwards (via relationsByDestination) from a claim or
+ * hypothesis down to the evidence (EVD) and results (RES) behind it, and
+ * the sources (SRC) those cite.
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { NodeType } from "./types.js";
+
+/**
+ * How a relation bears on the node it points to
+ */
+export type Polarity = "support" | "oppose" | "inform";
+
+/**
+ * Node types treated as evidence (leaves of an argument tree)
+ */
+export const EVIDENCE_NODE_TYPES: NodeType[] = ["EVD", "RES"];
+
+/**
+ * Node type of cited sources
+ */
+export const SOURCE_NODE_TYPE: NodeType = "SRC";
+
+/**
+ * Upper bound on tree size; nodes reachable by several routes are repeated
+ */
+const MAX_TREE_NODES = 500;
+
+/**
+ * Classify a relation label by polarity
+ * Example: "Supports" -> support, "Opposes" -> oppose, "Informs" -> inform
+ *
+ * @returns The polarity, or null for labels that carry no argumentative stance
+ */
+export function relationPolarity(label: string): Polarity | null {
+  if (/oppos|contradict|refut/i.test(label)) return "oppose";
+  if (/support/i.test(label)) return "support";
+  if (/inform/i.test(label)) return "inform";
+  return null;
+}
+
+/**
+ * Combine polarities along a chain
+ * Opposing an opposing node supports the root; anything passing through an
+ * Informs edge only informs it.
+ */
+export function composePolarity(outer: Polarity, inner: Polarity): Polarity {
+  if (outer === "inform" || inner === "inform") return "inform";
+  return outer === inner ? "support" : "oppose";
+}
+
+/**
+ * Evidence counts under a tree node, relative to that node
+ */
+export interface EvidenceTally {
+  supporting: number;
+  opposing: number;
+  informing: number;
+}
+
+/**
+ * Creator and cited sources of a leaf
+ */
+export interface Provenance {
+  creator: string;
+  created: string;
+  sources: Array<{ uid: string; title: string }>;
+}
+
+/**
+ * A node in an argument tree
+ */
+export interface ArgumentTreeNode {
+  uid: string;
+  nodeType: NodeType | null;
+  title: string;
+  creator: string;
+  /** Relation from this node to its parent (absent on the root) */
+  relationshipType?: string;
+  /** Polarity of that relation */
+  polarity?: Polarity;
+  /** Net bearing on the root claim, composed along the chain */
+  stance: Polarity;
+  /** Evidence below this node, relative to this node */
+  tally: EvidenceTally;
+  /** Set when this node already appears higher up the same branch */
+  cycle?: true;
+  /** Set when children were not expanded (depth or size limit) */
+  truncated?: true;
+  /** Creator and sources (leaves only) */
+  provenance?: Provenance;
+  children: ArgumentTreeNode[];
+}
+
+/**
+ * An argument tree with whole-tree statistics
+ */
+export interface ArgumentTree {
+  root: ArgumentTreeNode;
+  nodeCount: number;
+  evidenceCount: number;
+  cycleCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Sources (SRC nodes) a node cites by relation or text reference
+ */
+function findSources(dataStore: DataStore, uid: string): Array<{ uid: string; title: string }> {
+  const node = dataStore.nodesByUid.get(uid);
+  const candidates = new Set<string>(node?.linkedNodeUids || []);
+  for (const relation of dataStore.relationsBySource.get(uid) || []) {
+    candidates.add(relation.destinationUid);
+  }
+  for (const relation of dataStore.relationsByDestination.get(uid) || []) {
+    candidates.add(relation.sourceUid);
+  }
+
+  const sources: Array<{ uid: string; title: string }> = [];
+  for (const candidateUid of candidates) {
+    const candidate = dataStore.nodesByUid.get(candidateUid);
+    if (candidate?.nodeType === SOURCE_NODE_TYPE) {
+      sources.push({ uid: candidate.uid, title: candidate.titleClean });
+    }
+  }
+  return sources;
+}
+
+/**
+ * Build the support/opposition tree behind a node
+ *
+ * Children of a node are the nodes whose Supports / Opposes / Informs
+ * relations point at it. Evidence nodes (EVD, RES) are leaves. A node that
+ * reappears on its own branch is marked as a cycle and not expanded again.
+ *
+ * @param dataStore - The data store
+ * @param rootUid - Claim or hypothesis to explain (must exist)
+ * @param maxDepth - Maximum number of relation hops below the root
+ * @returns The tree and its statistics
+ */
+export function buildArgumentTree(
+  dataStore: DataStore,
+  rootUid: string,
+  maxDepth: number
+): ArgumentTree {
+  let nodeCount = 0;
+  let evidenceCount = 0;
+  let cycleCount = 0;
+  let truncated = false;
+
+  const visit = (
+    uid: string,
+    stance: Polarity,
+    ancestors: Set<string>,
+    depth: number,
+    edge?: { relationshipType: string; polarity: Polarity }
+  ): ArgumentTreeNode => {
+    const node = dataStore.nodesByUid.get(uid)!;
+    nodeCount++;
+
+    const treeNode: ArgumentTreeNode = {
+      uid: node.uid,
+      nodeType: node.nodeType,
+      title: node.titleClean,
+      creator: node.creator,
+      ...edge,
+      stance,
+      tally: { supporting: 0, opposing: 0, informing: 0 },
+      children: []
+    };
+
+    const isEvidence = node.nodeType !== null && EVIDENCE_NODE_TYPES.includes(node.nodeType);
+    if (ancestors.has(uid)) {
+      treeNode.cycle = true;
+      cycleCount++;
+      return treeNode;
+    }
+
+    const supporters = isEvidence
+      ? []
+      : (dataStore.relationsByDestination.get(uid) || []).filter(
+          relation => relationPolarity(relation.label) && dataStore.nodesByUid.has(relation.sourceUid)
+        );
+
+    if (supporters.length > 0 && (depth >= maxDepth || nodeCount >= MAX_TREE_NODES)) {
+      treeNode.truncated = true;
+      truncated = true;
+    } else {
+      const branch = new Set(ancestors).add(uid);
+      for (const relation of supporters) {
+        if (nodeCount >= MAX_TREE_NODES) {
+          treeNode.truncated = true;
+          truncated = true;
+          break;
+        }
+        const polarity = relationPolarity(relation.label)!;
+        const child = visit(relation.sourceUid, composePolarity(stance, polarity), branch, depth + 1, {
+          relationshipType: relation.label,
+          polarity
+        });
+        treeNode.children.push(child);
+        addToTally(treeNode.tally, child, polarity);
+      }
+    }
+
+    if (isEvidence) evidenceCount++;
+    if (treeNode.children.length === 0 && !treeNode.cycle) {
+      treeNode.provenance = {
+        creator: node.creator,
+        created: node.created,
+        sources: findSources(dataStore, uid)
+      };
+    }
+    return treeNode;
+  };
+
+  const root = visit(rootUid, "support", new Set(), 0);
+  return { root, nodeCount, evidenceCount, cycleCount, truncated };
+}
+
+/**
+ * Add a child's evidence to its parent's tally
+ * An evidence child counts once under the relation's polarity; its own
+ * tally is flipped through the relation (opposing an opponent supports).
+ */
+function addToTally(tally: EvidenceTally, child: ArgumentTreeNode, polarity: Polarity): void {
+  const bucket = (p: Polarity): keyof EvidenceTally =>
+    p === "support" ? "supporting" : p === "oppose" ? "opposing" : "informing";
+
+  if (!child.cycle && child.nodeType !== null && EVIDENCE_NODE_TYPES.includes(child.nodeType)) {
+    tally[bucket(polarity)]++;
+  }
+  tally[bucket(composePolarity(polarity, "support"))] += child.tally.supporting;
+  tally[bucket(composePolarity(polarity, "oppose"))] += child.tally.opposing;
+  tally.informing += child.tally.informing;
+}
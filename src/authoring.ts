@@ -0,0 +1,355 @@
+/**
+ * Authoring
+ *
+ * Builds JSON-LD entries for new discourse nodes, typed relations and node
+ * edits, checked against the loaded ontology: node types must have a
+ * nodeSchema, and relations must fit a relationDef's domain and range.
+ * Entries use the export's own shape, so they can be merged on top of it
+ * (see writeBackend.ts and drafts.ts) or pasted back into the source graph.
+ * An edit is a full node entry with the node's UID, replacing it.
+ */
+
+import { randomBytes } from "crypto";
+import { DataStore } from "./dataLoader.js";
+import { NodeSchema, RawJsonLdNode, RawRelationInstance, RelationDef } from "./types.js";
+import { compileTitleGrammar, parseTitle, resolveNodeType, TitleGrammarConfig } from "./titleGrammar.js";
+
+/**
+ * Characters used in generated UIDs (Roam's alphabet)
+ */
+const UID_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const UID_LENGTH = 9;
+
+/**
+ * A node to create
+ */
+export interface NewNode {
+  /** Type abbreviation or schema label (e.g., "CLM" or "Claim") */
+  nodeType: string;
+  /** Title, with or without the type prefix */
+  title: string;
+  content: string;
+  creator: string;
+}
+
+/**
+ * A relation to create
+ */
+export interface NewRelation {
+  /** Relation label or relationDef UID (e.g., "Supports") */
+  relationType: string;
+  sourceUid: string;
+  destinationUid: string;
+  creator: string;
+}
+
+/**
+ * A change to an existing node
+ */
+export interface NodeEdit {
+  uid: string;
+  /** New title; keeps the node's type prefix if none is given */
+  title?: string;
+  /** New content */
+  content?: string;
+}
+
+/**
+ * A checked entry ready to be written, or why it was rejected
+ */
+export type PreparedEntry<T> =
+  | { ok: true; uid: string; entry: T }
+  | { ok: false; error: string; details?: Record<string, unknown> };
+
+/**
+ * Generate a UID not used by any node or relation definition
+ */
+function generateUid(dataStore: DataStore): string {
+  for (;;) {
+    const bytes = randomBytes(UID_LENGTH);
+    const uid = Array.from(bytes, byte => UID_ALPHABET[byte % UID_ALPHABET.length]).join("");
+    const taken =
+      dataStore.nodesByUid.has(uid) || dataStore.relationDefs.has(uid) || dataStore.nodeSchemas.has(uid);
+    if (!taken) return uid;
+  }
+}
+
+/**
+ * Find the node schema for a type abbreviation or label (case-insensitive)
+ */
+function findSchema(dataStore: DataStore, nodeType: string): NodeSchema | undefined {
+  const lower = nodeType.toLowerCase();
+  const schemas = Array.from(dataStore.nodeSchemas.values());
+  return (
+    schemas.find(schema => schema.nodeType?.toLowerCase() === lower) ??
+    schemas.find(schema => schema.label.toLowerCase() === lower)
+  );
+}
+
+/**
+ * Node type of a title under the dataset's title grammar (null = no match)
+ */
+function titleTyper(dataStore: DataStore, titleGrammar: TitleGrammarConfig): (title: string) => string | null {
+  const grammar = compileTitleGrammar(titleGrammar);
+  return title => {
+    const { typeToken } = parseTitle(grammar, title);
+    return typeToken === null ? null : resolveNodeType(grammar, typeToken, dataStore.nodeSchemas);
+  };
+}
+
+/**
+ * Titles inside [[...]] page references in some text
+ *
+ * Brackets nest, as in Roam: "[[[[CLM]] - Foo]]" references both "CLM" and
+ * "[[CLM]] - Foo".
+ */
+function referencedTitles(text: string): string[] {
+  const titles: string[] = [];
+  const open: number[] = [];
+  for (let i = 0; i < text.length; ) {
+    if (text.startsWith("[[", i)) {
+      open.push(i + 2);
+      i += 2;
+    } else if (text.startsWith("]]", i) && open.length > 0) {
+      titles.push(text.slice(open.pop()!, i));
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return titles;
+}
+
+/**
+ * textRefersToNode entries for the nodes a node's content references by title
+ */
+function textReferences(dataStore: DataStore, content: string): string[] {
+  const uids = new Set<string>();
+  const titles = new Set(referencedTitles(content));
+  for (const node of dataStore.allNodes) {
+    if (titles.has(node.title)) uids.add(node.uid);
+  }
+  return Array.from(uids, uid => `page:${uid}`);
+}
+
+/**
+ * Check and build a new node entry
+ *
+ * A title without a type prefix gets the "[[XXX]] - " prefix; either way the
+ * final title must parse to the requested type under the dataset's title
+ * grammar. Titles must be unique, as in Roam.
+ *
+ * @param dataStore - The data store the node will join
+ * @param titleGrammar - The dataset's title grammar
+ * @param input - The node to create
+ * @param now - Creation time
+ */
+export function prepareNode(
+  dataStore: DataStore,
+  titleGrammar: TitleGrammarConfig,
+  input: NewNode,
+  now: Date = new Date()
+): PreparedEntry<RawJsonLdNode> {
+  const schema = findSchema(dataStore, input.nodeType);
+  if (!schema?.nodeType) {
+    return {
+      ok: false,
+      error: `Unknown node type: ${input.nodeType}`,
+      details: {
+        availableTypes: Array.from(dataStore.nodeSchemas.values(), s => ({ nodeType: s.nodeType, label: s.label }))
+      }
+    };
+  }
+
+  const typeOf = titleTyper(dataStore, titleGrammar);
+  const trimmed = input.title.trim();
+  const title = typeOf(trimmed) === null ? `[[${schema.nodeType}]] - ${trimmed}` : trimmed;
+  const parsedType = typeOf(title);
+  if (parsedType !== schema.nodeType) {
+    return {
+      ok: false,
+      error:
+        parsedType === null
+          ? `Title does not match this dataset's title grammar; include the type prefix the graph uses`
+          : `Title prefix gives node type ${parsedType}, not ${schema.nodeType}`,
+      details: { title }
+    };
+  }
+
+  const existing = dataStore.allNodes.find(node => node.title === title);
+  if (existing) {
+    return { ok: false, error: `A node with this title already exists: ${existing.uid}`, details: { title } };
+  }
+
+  const uid = generateUid(dataStore);
+  const timestamp = now.toISOString();
+  return {
+    ok: true,
+    uid,
+    entry: {
+      "@id": `pages:${uid}`,
+      "@type": `pages:${schema.uid}`,
+      title,
+      content: input.content,
+      modified: timestamp,
+      created: timestamp,
+      creator: input.creator,
+      textRefersToNode: textReferences(dataStore, input.content)
+    }
+  };
+}
+
+/**
+ * Check and build a replacement entry for an edited node
+ *
+ * The node keeps its UID, creator and creation time, and its text references
+ * unless the content changes (they are then taken from the new content). A
+ * new title may change the node's type, but only to a type with a nodeSchema.
+ *
+ * @param dataStore - The data store holding the node
+ * @param titleGrammar - The dataset's title grammar
+ * @param input - The edit
+ * @param now - Modification time
+ */
+export function prepareEdit(
+  dataStore: DataStore,
+  titleGrammar: TitleGrammarConfig,
+  input: NodeEdit,
+  now: Date = new Date()
+): PreparedEntry<RawJsonLdNode> {
+  const node = dataStore.nodesByUid.get(input.uid);
+  if (!node) return { ok: false, error: `Node not found: ${input.uid}` };
+
+  const typeOf = titleTyper(dataStore, titleGrammar);
+  let title = node.title;
+  if (input.title !== undefined) {
+    const trimmed = input.title.trim();
+    title = typeOf(trimmed) === null && node.nodeType ? `[[${node.nodeType}]] - ${trimmed}` : trimmed;
+  }
+  const content = input.content ?? node.content;
+  if (title === node.title && content === node.content) {
+    return { ok: false, error: "The edit changes nothing; give a new title or content" };
+  }
+
+  const parsedType = typeOf(title);
+  const schema = parsedType === null ? undefined : findSchema(dataStore, parsedType);
+  if (!schema) {
+    return {
+      ok: false,
+      error:
+        parsedType === null
+          ? `Title does not match this dataset's title grammar; include the type prefix the graph uses`
+          : `Title prefix gives node type ${parsedType}, which has no node schema`,
+      details: { title }
+    };
+  }
+
+  const existing = dataStore.allNodes.find(other => other.title === title && other.uid !== node.uid);
+  if (existing) {
+    return { ok: false, error: `A node with this title already exists: ${existing.uid}`, details: { title } };
+  }
+
+  return {
+    ok: true,
+    uid: node.uid,
+    entry: {
+      "@id": `pages:${node.uid}`,
+      "@type": `pages:${schema.uid}`,
+      title,
+      content,
+      modified: now.toISOString(),
+      created: node.created,
+      creator: node.creator,
+      textRefersToNode:
+        content === node.content
+          ? node.linkedNodeUids.map(uid => `page:${uid}`)
+          : textReferences(dataStore, content)
+    }
+  };
+}
+
+/**
+ * Check and build a new relation entry
+ *
+ * Among the relationDefs with the requested label, the one whose domain and
+ * range fit the endpoint node types is used. Exact duplicates are rejected.
+ *
+ * @param dataStore - The data store the relation will join
+ * @param input - The relation to create
+ * @param now - Creation time
+ */
+export function prepareRelation(
+  dataStore: DataStore,
+  input: NewRelation,
+  now: Date = new Date()
+): PreparedEntry<RawRelationInstance> {
+  const source = dataStore.nodesByUid.get(input.sourceUid);
+  if (!source) return { ok: false, error: `Source node not found: ${input.sourceUid}` };
+  const destination = dataStore.nodesByUid.get(input.destinationUid);
+  if (!destination) return { ok: false, error: `Destination node not found: ${input.destinationUid}` };
+  if (source.uid === destination.uid) {
+    return { ok: false, error: "A relation needs two different nodes" };
+  }
+
+  const lower = input.relationType.toLowerCase();
+  const candidates = Array.from(dataStore.relationDefs.values()).filter(
+    relDef => relDef.uid === input.relationType || relDef.label.toLowerCase() === lower
+  );
+  if (candidates.length === 0) {
+    return {
+      ok: false,
+      error: `Unknown relation type: ${input.relationType}`,
+      details: {
+        availableTypes: Array.from(new Set(Array.from(dataStore.relationDefs.values(), relDef => relDef.label)))
+      }
+    };
+  }
+
+  const fits = (relDef: RelationDef) => {
+    const domainType = dataStore.nodeSchemas.get(relDef.domainUid)?.nodeType;
+    const rangeType = dataStore.nodeSchemas.get(relDef.rangeUid)?.nodeType;
+    return (
+      (!domainType || domainType === source.nodeType) &&
+      (!rangeType || rangeType === destination.nodeType)
+    );
+  };
+  const relDef = candidates.find(fits);
+  if (!relDef) {
+    return {
+      ok: false,
+      error:
+        `${input.relationType} cannot connect a ${source.nodeType ?? "untyped"} node ` +
+        `to a ${destination.nodeType ?? "untyped"} node`,
+      details: {
+        allowed: candidates.map(candidate => ({
+          domain: candidate.domainLabel,
+          range: candidate.rangeLabel
+        }))
+      }
+    };
+  }
+
+  const duplicate = (dataStore.relationsBySource.get(source.uid) || []).some(
+    relation => relation.predicateUid === relDef.uid && relation.destinationUid === destination.uid
+  );
+  if (duplicate) {
+    return { ok: false, error: `${source.uid} already ${relDef.label} ${destination.uid}` };
+  }
+
+  const uid = generateUid(dataStore);
+  const timestamp = now.toISOString();
+  return {
+    ok: true,
+    uid,
+    entry: {
+      "@id": `pages:${uid}`,
+      "@type": "relationInstance",
+      predicate: `pages:${relDef.uid}`,
+      source: `pages:${source.uid}`,
+      destination: `pages:${destination.uid}`,
+      creator: input.creator,
+      created: timestamp,
+      modified: timestamp
+    }
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Backlinks
+ *
+ * Who mentions a node: the nodes whose text references it (from the
+ * nodesReferencingUid index), each with the passage of content around the
+ * mention.
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { DiscourseNode } from "./types.js";
+import { compareDates } from "./dates.js";
+
+/**
+ * A node that mentions another node in its text
+ */
+export interface Backlink {
+  node: DiscourseNode;
+  /** Content around the first mention (null if the mention is not in the content text) */
+  snippet: string | null;
+  /** Whether the referencing node also has a typed relation to the target */
+  alsoRelated: boolean;
+}
+
+/**
+ * Extract the passage around the first mention of a node
+ *
+ * Mentions are looked for as the full title (usually inside [[...]]), then
+ * the clean title, then the UID (block references).
+ *
+ * @param content - Content of the referencing node
+ * @param target - The mentioned node
+ * @param contextChars - Characters to keep on each side of the mention
+ * @returns Snippet with "..." where content was cut, or null if not found
+ */
+export function mentionSnippet(
+  content: string,
+  target: DiscourseNode,
+  contextChars: number
+): string | null {
+  const haystack = content.toLowerCase();
+  let start = -1;
+  let length = 0;
+  for (const needle of [target.title, target.titleClean, target.uid]) {
+    if (!needle) continue;
+    start = haystack.indexOf(needle.toLowerCase());
+    if (start >= 0) {
+      length = needle.length;
+      break;
+    }
+  }
+  if (start < 0) return null;
+
+  const from = Math.max(0, start - contextChars);
+  const to = Math.min(content.length, start + length + contextChars);
+  const passage = content
+    .slice(from, to)
+    .replace(/!\[.*?\]\(.*?\)/g, "[image]")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return `${from > 0 ? "..." : ""}${passage}${to < content.length ? "..." : ""}`;
+}
+
+/**
+ * Find the nodes that mention a node in their text
+ *
+ * @param dataStore - The data store
+ * @param uid - The mentioned node (must exist)
+ * @param contextChars - Characters of content to keep on each side of the mention
+ * @returns Backlinks, most recently modified first
+ */
+export function findBacklinks(dataStore: DataStore, uid: string, contextChars: number): Backlink[] {
+  const target = dataStore.nodesByUid.get(uid)!;
+  const related = new Set<string>();
+  for (const relation of dataStore.relationsByDestination.get(uid) || []) {
+    related.add(relation.sourceUid);
+  }
+  for (const relation of dataStore.relationsBySource.get(uid) || []) {
+    related.add(relation.destinationUid);
+  }
+
+  return (dataStore.nodesReferencingUid.get(uid) || [])
+    .map(node => ({
+      node,
+      snippet: mentionSnippet(node.content, target, contextChars),
+      alsoRelated: related.has(node.uid)
+    }))
+    .sort((a, b) => compareDates(b.node.modified, a.node.modified));
+}
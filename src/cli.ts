@@ -0,0 +1,299 @@
+/**
+ * Command-Line Modes
+ *
+ * One-shot commands run instead of starting the MCP server:
+ * - --check: validate every configured dataset and exit non-zero on errors
+ * - diff-snapshots <before.json> <after.json> [--json]: what changed
+ *   between two exports
+ * - export-subgraph --format <format> [seeds and options]: write part of a
+ *   dataset as GraphML, GEXF, Cytoscape.js JSON or DOT
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { DatasetRegistry, resolveDataset } from "./registry.js";
+import { ALL_ISSUE_KINDS, validateGraph } from "./validator.js";
+import { IndexCacheOptions, loadExport } from "./dataset.js";
+import { snapshotDate, storeAsOf } from "./history.js";
+import { diffSnapshots, summarizeSnapshotDiff } from "./snapshotDiff.js";
+import { TitleGrammarConfig } from "./titleGrammar.js";
+import { formatSubgraph, selectSubgraph, SUBGRAPH_FORMATS, SubgraphFormat } from "./subgraphExport.js";
+import { SynonymTable } from "./search.js";
+import { TraversalDirection } from "./graph.js";
+
+/**
+ * Issues listed per kind before the rest are summarized
+ */
+const MAX_ISSUES_PER_KIND = 20;
+
+/**
+ * Changes listed per section of a snapshot diff before the rest are summarized
+ */
+const MAX_CHANGES_PER_SECTION = 20;
+
+/**
+ * Validate every dataset and print a report to stdout
+ *
+ * @param registry - Loaded datasets
+ * @returns Process exit code (1 if any dataset has errors)
+ */
+export function runCheck(registry: DatasetRegistry): number {
+  let failed = false;
+
+  for (const [name, dataset] of registry.datasets) {
+    const report = validateGraph(dataset.store);
+    failed = failed || !report.valid;
+
+    console.log(
+      `${name}: ${report.valid ? "OK" : "FAILED"} - ${report.errorCount} errors, ${report.warningCount} warnings ` +
+        `(${report.nodeCount} nodes, ${report.relationCount} relations)`
+    );
+    for (const kind of ALL_ISSUE_KINDS) {
+      const issues = report.issues.filter(issue => issue.kind === kind);
+      if (issues.length === 0) continue;
+
+      console.log(`  ${kind} (${issues.length})`);
+      for (const issue of issues.slice(0, MAX_ISSUES_PER_KIND)) {
+        console.log(`    [${issue.severity}] ${issue.message}`);
+      }
+      if (issues.length > MAX_ISSUES_PER_KIND) {
+        console.log(`    ... and ${issues.length - MAX_ISSUES_PER_KIND} more`);
+      }
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+/**
+ * Print one section of a snapshot diff
+ */
+function printSection<T>(heading: string, total: number, items: T[], format: (item: T) => string[]): void {
+  if (total === 0) return;
+  console.log(`${heading} (${total})`);
+  for (const item of items) {
+    for (const line of format(item)) console.log(`  ${line}`);
+  }
+  if (total > items.length) {
+    console.log(`  ... and ${total - items.length} more`);
+  }
+}
+
+/**
+ * Compare two exports and print what changed to stdout
+ *
+ * @param beforePath - The earlier export
+ * @param afterPath - The later export
+ * @param titleGrammar - How node types are written in titles
+ * @param cache - Index cache settings (null to always parse the exports)
+ * @param asJson - Print the full diff as JSON instead of a text report
+ * @returns Process exit code
+ */
+export async function runDiffSnapshots(
+  beforePath: string,
+  afterPath: string,
+  titleGrammar: TitleGrammarConfig,
+  cache: IndexCacheOptions | null,
+  asJson: boolean
+): Promise<number> {
+  const before = await loadExport(beforePath, titleGrammar, cache);
+  const after = await loadExport(afterPath, titleGrammar, cache);
+  const diff = diffSnapshots(before, after);
+  const from = { name: path.basename(beforePath), date: snapshotDate(beforePath) };
+  const to = { name: path.basename(afterPath), date: snapshotDate(afterPath) };
+
+  if (asJson) {
+    const summary = summarizeSnapshotDiff(diff, before, after, { limit: Infinity, contentDiffs: true });
+    console.log(JSON.stringify({ from, to, ...summary }, null, 2));
+    return 0;
+  }
+
+  const summary = summarizeSnapshotDiff(diff, before, after, {
+    limit: MAX_CHANGES_PER_SECTION,
+    contentDiffs: true
+  });
+  const { counts } = summary;
+  console.log(`${from.name} (${from.date}) -> ${to.name} (${to.date})`);
+  console.log(
+    `  nodes: +${counts.addedNodes} -${counts.removedNodes} ~${counts.modifiedNodes}; ` +
+      `relations: +${counts.addedRelations} -${counts.removedRelations}; ` +
+      `new creators: ${counts.newCreators}; schema changes: ${counts.schemaChanges}`
+  );
+
+  const node = (n: { uid: string; nodeType: string | null; title: string; creator: string }) =>
+    `${n.uid} [${n.nodeType ?? "untyped"}] ${n.title} (${n.creator})`;
+  const relation = (r: (typeof summary.addedRelations)[number]) =>
+    `${r.source.title ?? r.source.uid} --${r.relationshipType}--> ${r.destination.title ?? r.destination.uid}`;
+
+  printSection("Added nodes", counts.addedNodes, summary.addedNodes, n => [`+ ${node(n)}`]);
+  printSection("Removed nodes", counts.removedNodes, summary.removedNodes, n => [`- ${node(n)}`]);
+  printSection("Modified nodes", counts.modifiedNodes, summary.modifiedNodes, n => [
+    `~ ${node(n)}: ${n.changed.join(", ")}`,
+    ...(n.titleChange ? [`    title: ${n.titleChange.before} -> ${n.titleChange.after}`] : []),
+    ...(n.contentDiff ? n.contentDiff.split("\n").map(line => `    ${line}`) : [])
+  ]);
+  printSection("Added relations", counts.addedRelations, summary.addedRelations, r => [`+ ${relation(r)}`]);
+  printSection("Removed relations", counts.removedRelations, summary.removedRelations, r => [`- ${relation(r)}`]);
+  printSection("New creators", counts.newCreators, summary.newCreators, c => [`+ ${c.creator} (${c.nodeCount} nodes)`]);
+
+  const { schema } = diff;
+  const schemaLines = [
+    ...schema.addedNodeSchemas.map(s => `+ node schema ${s.label} (${s.nodeType})`),
+    ...schema.removedNodeSchemas.map(s => `- node schema ${s.label} (${s.nodeType})`),
+    ...schema.changedNodeSchemas.map(c => `~ node schema ${c.before.label} (${c.before.nodeType}) -> ${c.after.label} (${c.after.nodeType})`),
+    ...schema.addedRelationDefs.map(d => `+ relation ${d.label}: ${d.domainLabel} -> ${d.rangeLabel}`),
+    ...schema.removedRelationDefs.map(d => `- relation ${d.label}: ${d.domainLabel} -> ${d.rangeLabel}`),
+    ...schema.changedRelationDefs.map(
+      c => `~ relation ${c.before.label}: ${c.before.domainLabel} -> ${c.before.rangeLabel} ` +
+        `is now ${c.after.label}: ${c.after.domainLabel} -> ${c.after.rangeLabel}`
+    )
+  ];
+  printSection("Schema changes", schemaLines.length, schemaLines, line => [line]);
+  return 0;
+}
+
+/**
+ * Usage of the export-subgraph command
+ */
+const EXPORT_SUBGRAPH_USAGE = `Usage: export-subgraph --format <${SUBGRAPH_FORMATS.join("|")}> [options]
+Seeds (at least one; combined):
+  --uids <uid,uid,...>          Nodes to include
+  --query <query>               Top matches of a search query (search_nodes syntax)
+  --around <uid>                A node and its neighborhood
+Options:
+  --query-limit <n>             Search matches to include (default 50)
+  --depth <n>                   Hops from --around (default 1)
+  --direction <outgoing|incoming|both>
+  --relationship-type <label>   Only follow this relation type from --around
+  --no-text-references          Leave out [[...]] text reference edges
+  --max-nodes <n>               Most nodes to export (default 500)
+  --dataset <name>              Dataset to export from (default: the default dataset)
+  --as-of <date>                Export the latest export on or before this date (needs a history directory)
+  --output <file>               Write to a file instead of stdout`;
+
+/**
+ * Parse a positive integer option (undefined if not given)
+ */
+function positiveInteger(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Export a subgraph of a dataset to stdout or a file
+ * A summary of what was exported goes to stderr.
+ *
+ * @param registry - Loaded datasets
+ * @param args - Command-line arguments after "export-subgraph"
+ * @param synonyms - Synonyms for query expansion
+ * @returns Process exit code
+ */
+export async function runExportSubgraph(
+  registry: DatasetRegistry,
+  args: string[],
+  synonyms?: SynonymTable
+): Promise<number> {
+  let options;
+  try {
+    const { values } = parseArgs({
+      args,
+      options: {
+        format: { type: "string" },
+        uids: { type: "string" },
+        query: { type: "string" },
+        "query-limit": { type: "string" },
+        around: { type: "string" },
+        depth: { type: "string" },
+        direction: { type: "string" },
+        "relationship-type": { type: "string" },
+        "no-text-references": { type: "boolean" },
+        "max-nodes": { type: "string" },
+        dataset: { type: "string" },
+        "as-of": { type: "string" },
+        output: { type: "string" }
+      }
+    });
+    if (!SUBGRAPH_FORMATS.includes(values.format as SubgraphFormat)) {
+      throw new Error(`--format must be one of ${SUBGRAPH_FORMATS.join(", ")}`);
+    }
+    if (values.direction !== undefined && !["outgoing", "incoming", "both"].includes(values.direction)) {
+      throw new Error("--direction must be outgoing, incoming or both");
+    }
+    options = {
+      ...values,
+      format: values.format as SubgraphFormat,
+      queryLimit: positiveInteger("query-limit", values["query-limit"]),
+      depth: positiveInteger("depth", values.depth),
+      maxNodes: positiveInteger("max-nodes", values["max-nodes"]) ?? 500
+    };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(EXPORT_SUBGRAPH_USAGE);
+    return 1;
+  }
+
+  const lookup = resolveDataset(registry, options.dataset);
+  if (!lookup.ok) {
+    console.error(lookup.error);
+    return 1;
+  }
+  const { dataset } = lookup;
+  let store = dataset.store;
+  if (options["as-of"] !== undefined) {
+    const found = await storeAsOf(dataset, options["as-of"]);
+    if (!found.ok) {
+      console.error(found.error);
+      return 1;
+    }
+    console.error(`Exporting from ${found.version.name} (${found.version.date})`);
+    store = found.store;
+  }
+
+  const selected = selectSubgraph(
+    store,
+    {
+      uids: options.uids?.split(",").map(uid => uid.trim()).filter(Boolean),
+      query: options.query,
+      queryLimit: options.queryLimit,
+      around: options.around,
+      depth: options.depth,
+      direction: options.direction as TraversalDirection | undefined,
+      relationshipType: options["relationship-type"],
+      textReferences: !options["no-text-references"],
+      maxNodes: options.maxNodes
+    },
+    synonyms
+  );
+  if (!selected.ok) {
+    console.error(selected.error);
+    if (selected.details) console.error(JSON.stringify(selected.details, null, 2));
+    return 1;
+  }
+
+  const { subgraph } = selected;
+  if (subgraph.missingUids.length > 0) {
+    console.error(`Not found: ${subgraph.missingUids.join(", ")}`);
+  }
+  if (subgraph.nodes.length === 0) {
+    console.error("No nodes matched the seeds");
+    return 1;
+  }
+
+  const document = formatSubgraph(subgraph, options.format, dataset.info.name);
+  if (options.output) {
+    await fs.promises.writeFile(options.output, document, "utf-8");
+  } else {
+    process.stdout.write(document);
+  }
+  console.error(
+    `Exported ${subgraph.nodes.length} nodes and ${subgraph.edges.length} edges as ${options.format}` +
+      (options.output ? ` to ${options.output}` : "") +
+      (subgraph.droppedNodes > 0 ? ` (${subgraph.droppedNodes} more nodes left out by --max-nodes)` : "")
+  );
+  return 0;
+}
@@ -0,0 +1,281 @@
+/**
+ * Clusters
+ *
+ * Community detection (Louvain modularity optimization) over the combined
+ * relation and text-reference graph, treated as undirected. Clusters of
+ * the whole graph are cached per DataStore; clusters of a neighborhood
+ * subgraph are computed on demand.
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { buildIndexedGraph, IndexedGraph } from "./graphMetrics.js";
+
+/**
+ * Louvain stops refining a level after this many sweeps
+ */
+const MAX_SWEEPS = 20;
+
+/**
+ * A detected community
+ */
+export interface Cluster {
+  /** 0 = largest */
+  id: number;
+  uids: string[];
+}
+
+/**
+ * Communities of a graph or subgraph
+ */
+export interface Clustering {
+  /** Clusters, largest first */
+  clusters: Cluster[];
+  /** Modularity of the partition (-0.5 to 1; higher = more clearly separated) */
+  modularity: number;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+/**
+ * Cached whole-graph clustering per store
+ */
+const clusteringCache = new WeakMap<DataStore, Clustering>();
+
+/**
+ * Weighted undirected graph used by Louvain
+ * Self-loop weights hold edges collapsed inside an aggregated node.
+ */
+interface WeightedGraph {
+  adjacency: Array<Map<number, number>>;
+  selfWeight: number[];
+}
+
+/**
+ * Weighted degree of a node (self loops count twice)
+ */
+function degreeOf(graph: WeightedGraph, i: number): number {
+  let degree = 2 * graph.selfWeight[i];
+  for (const weight of graph.adjacency[i].values()) degree += weight;
+  return degree;
+}
+
+/**
+ * One Louvain level: greedily move nodes between neighboring communities
+ *
+ * @returns Community of each node, and whether any node moved
+ */
+function moveNodes(
+  graph: WeightedGraph,
+  totalWeight: number
+): { community: Int32Array; moved: boolean } {
+  const n = graph.adjacency.length;
+  const community = new Int32Array(n);
+  const degrees = new Float64Array(n);
+  const communityDegree = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    community[i] = i;
+    degrees[i] = degreeOf(graph, i);
+    communityDegree[i] = degrees[i];
+  }
+
+  let moved = false;
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let movedThisSweep = false;
+
+    for (let i = 0; i < n; i++) {
+      const current = community[i];
+
+      // Link weight from i to each neighboring community
+      const links = new Map<number, number>();
+      for (const [j, weight] of graph.adjacency[i]) {
+        links.set(community[j], (links.get(community[j]) || 0) + weight);
+      }
+
+      // Take i out, then put it where the modularity gain is largest
+      communityDegree[current] -= degrees[i];
+      const gain = (c: number) =>
+        (links.get(c) || 0) - (communityDegree[c] * degrees[i]) / (2 * totalWeight);
+      let best = current;
+      let bestGain = gain(current);
+      for (const c of links.keys()) {
+        const candidate = gain(c);
+        if (candidate > bestGain + 1e-12) {
+          best = c;
+          bestGain = candidate;
+        }
+      }
+      communityDegree[best] += degrees[i];
+
+      if (best !== current) {
+        community[i] = best;
+        movedThisSweep = true;
+        moved = true;
+      }
+    }
+
+    if (!movedThisSweep) break;
+  }
+
+  return { community, moved };
+}
+
+/**
+ * Collapse each community into a single node
+ */
+function aggregate(graph: WeightedGraph, community: Int32Array, count: number): WeightedGraph {
+  const adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  const selfWeight = new Array<number>(count).fill(0);
+
+  graph.adjacency.forEach((neighbors, i) => {
+    const ci = community[i];
+    selfWeight[ci] += graph.selfWeight[i];
+    for (const [j, weight] of neighbors) {
+      const cj = community[j];
+      if (ci === cj) {
+        selfWeight[ci] += weight / 2;  // Seen from both ends
+      } else {
+        adjacency[ci].set(cj, (adjacency[ci].get(cj) || 0) + weight);
+      }
+    }
+  });
+
+  return { adjacency, selfWeight };
+}
+
+/**
+ * Louvain community detection on an undirected graph
+ *
+ * @param neighbors - Undirected neighbor lists by node index
+ * @returns Community index of each node
+ */
+function louvain(neighbors: number[][]): Int32Array {
+  const n = neighbors.length;
+  let graph: WeightedGraph = {
+    adjacency: neighbors.map(list => new Map(list.map(j => [j, 1]))),
+    selfWeight: new Array<number>(n).fill(0)
+  };
+  const totalWeight = neighbors.reduce((sum, list) => sum + list.length, 0) / 2;
+
+  const membership = new Int32Array(n);
+  for (let i = 0; i < n; i++) membership[i] = i;
+  if (totalWeight === 0) return membership;
+
+  for (;;) {
+    const { community, moved } = moveNodes(graph, totalWeight);
+    if (!moved) break;
+
+    // Renumber communities densely
+    const renumber = new Map<number, number>();
+    for (const c of community) {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    }
+    const dense = community.map(c => renumber.get(c)!);
+    for (let i = 0; i < n; i++) membership[i] = dense[membership[i]];
+
+    graph = aggregate(graph, dense, renumber.size);
+  }
+
+  return membership;
+}
+
+/**
+ * Modularity of a partition of an undirected graph
+ */
+function modularity(neighbors: number[][], membership: Int32Array): number {
+  const totalWeight = neighbors.reduce((sum, list) => sum + list.length, 0) / 2;
+  if (totalWeight === 0) return 0;
+
+  const internal = new Map<number, number>();
+  const degree = new Map<number, number>();
+  neighbors.forEach((list, i) => {
+    const c = membership[i];
+    degree.set(c, (degree.get(c) || 0) + list.length);
+    for (const j of list) {
+      if (membership[j] === c) internal.set(c, (internal.get(c) || 0) + 0.5);
+    }
+  });
+
+  let q = 0;
+  for (const [c, d] of degree) {
+    q += (internal.get(c) || 0) / totalWeight - (d / (2 * totalWeight)) ** 2;
+  }
+  return q;
+}
+
+/**
+ * Cluster the nodes of an indexed graph, optionally restricted to a subset
+ */
+function clusterGraph(graph: IndexedGraph, subset?: Set<number>): Clustering {
+  const indexes = subset ? Array.from(subset).sort((a, b) => a - b) : graph.uids.map((_, i) => i);
+  const local = new Map<number, number>();
+  indexes.forEach((original, i) => local.set(original, i));
+
+  const neighbors = indexes.map(original =>
+    graph.undirected[original].filter(j => local.has(j)).map(j => local.get(j)!)
+  );
+  const membership = louvain(neighbors);
+
+  const groups = new Map<number, string[]>();
+  membership.forEach((c, i) => {
+    const members = groups.get(c) || [];
+    members.push(graph.uids[indexes[i]]);
+    groups.set(c, members);
+  });
+
+  const clusters = Array.from(groups.values())
+    .sort((a, b) => b.length - a.length)
+    .map((uids, id) => ({ id, uids }));
+
+  return {
+    clusters,
+    modularity: modularity(neighbors, membership),
+    nodeCount: indexes.length,
+    edgeCount: neighbors.reduce((sum, list) => sum + list.length, 0) / 2
+  };
+}
+
+/**
+ * Cluster the whole graph (cached per store)
+ *
+ * @param dataStore - The data store
+ * @returns Communities, largest first
+ */
+export function getClusters(dataStore: DataStore): Clustering {
+  const cached = clusteringCache.get(dataStore);
+  if (cached) return cached;
+
+  const clustering = clusterGraph(buildIndexedGraph(dataStore));
+  clusteringCache.set(dataStore, clustering);
+  return clustering;
+}
+
+/**
+ * Cluster the subgraph within a number of hops of a node
+ * Hops ignore link direction.
+ *
+ * @param dataStore - The data store
+ * @param uid - Center node (must exist)
+ * @param depth - Maximum hops from the center
+ * @returns Communities of the subgraph, largest first
+ */
+export function getClustersAround(dataStore: DataStore, uid: string, depth: number): Clustering {
+  const graph = buildIndexedGraph(dataStore);
+  const start = graph.uids.indexOf(uid);
+
+  const reached = new Set<number>([start]);
+  let frontier = [start];
+  for (let hop = 0; hop < depth; hop++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      for (const j of graph.undirected[i]) {
+        if (!reached.has(j)) {
+          reached.add(j);
+          next.push(j);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return clusterGraph(graph, reached);
+}
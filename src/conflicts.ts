@@ -0,0 +1,259 @@
+/**
+ * Conflict Detection
+ *
+ * Finds where the discourse graph disagrees with itself:
+ * - contested: a node with both supporting and opposing relations into it
+ * - circular: nodes that support each other in a loop
+ * - opposedSupport: an opposition between two nodes that each have supporters
+ *
+ * Polarity comes from relation labels (see relationPolarity).
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { relationPolarity } from "./argumentTree.js";
+
+/**
+ * Kinds of conflict
+ */
+export type ConflictKind = "contested" | "circular" | "opposedSupport";
+
+export const ALL_CONFLICT_KINDS: ConflictKind[] = ["contested", "circular", "opposedSupport"];
+
+/**
+ * A claim and one side of the evidence around it
+ */
+export interface ConflictSide {
+  /** The node this side argues for (contested: the claim itself) */
+  claimUid: string;
+  stance: "support" | "oppose";
+  /** Nodes with relations on this side */
+  nodeUids: string[];
+}
+
+/**
+ * A detected conflict
+ */
+export interface Conflict {
+  kind: ConflictKind;
+  /** Nodes at the center of the conflict (claim, cycle members, or opposed pair) */
+  nodeUids: string[];
+  /** Evidence on each side (empty for circular support) */
+  sides: ConflictSide[];
+  /** Evidence on the weaker side: how evenly matched the conflict is */
+  balance: number;
+  /** Evidence on all sides combined */
+  total: number;
+}
+
+/**
+ * Conflicts found in a store, each list ranked most significant first
+ */
+export interface ConflictReport {
+  contested: Conflict[];
+  circular: Conflict[];
+  opposedSupport: Conflict[];
+}
+
+/**
+ * Sort by evidence on the weaker side, then by total evidence
+ */
+function rankConflicts(conflicts: Conflict[]): Conflict[] {
+  return conflicts.sort((a, b) => b.balance - a.balance || b.total - a.total);
+}
+
+/**
+ * Distinct source nodes of relations with the given polarity into a node
+ */
+function incoming(dataStore: DataStore, uid: string, polarity: "support" | "oppose"): string[] {
+  const sources = new Set<string>();
+  for (const relation of dataStore.relationsByDestination.get(uid) || []) {
+    if (relation.sourceUid !== uid && relationPolarity(relation.label) === polarity) {
+      sources.add(relation.sourceUid);
+    }
+  }
+  return Array.from(sources);
+}
+
+/**
+ * Nodes with both supporting and opposing relations into them
+ */
+function findContested(dataStore: DataStore): Conflict[] {
+  const conflicts: Conflict[] = [];
+  for (const uid of dataStore.relationsByDestination.keys()) {
+    if (!dataStore.nodesByUid.has(uid)) continue;
+
+    const supporters = incoming(dataStore, uid, "support");
+    const opposers = incoming(dataStore, uid, "oppose");
+    if (supporters.length === 0 || opposers.length === 0) continue;
+
+    conflicts.push({
+      kind: "contested",
+      nodeUids: [uid],
+      sides: [
+        { claimUid: uid, stance: "support", nodeUids: supporters },
+        { claimUid: uid, stance: "oppose", nodeUids: opposers }
+      ],
+      balance: Math.min(supporters.length, opposers.length),
+      total: supporters.length + opposers.length
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * Support cycles, one per strongly connected component of the support graph
+ *
+ * Uses an iterative Tarjan's algorithm over support-polarity relations.
+ * Each conflict lists one concrete cycle through the component; `total`
+ * counts supporting relations into the cycle from outside it.
+ */
+function findCircularSupport(dataStore: DataStore): Conflict[] {
+  // Support edges between existing nodes
+  const supportEdges = new Map<string, string[]>();
+  for (const relation of dataStore.allRelations) {
+    if (relationPolarity(relation.label) !== "support") continue;
+    if (!dataStore.nodesByUid.has(relation.sourceUid) || !dataStore.nodesByUid.has(relation.destinationUid)) {
+      continue;
+    }
+    const targets = supportEdges.get(relation.sourceUid) || [];
+    targets.push(relation.destinationUid);
+    supportEdges.set(relation.sourceUid, targets);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const start of supportEdges.keys()) {
+    if (index.has(start)) continue;
+
+    // Each frame: node and position in its edge list
+    const frames: Array<[string, number]> = [[start, 0]];
+    index.set(start, counter);
+    lowLink.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const [uid, position] = frame;
+      const targets = supportEdges.get(uid) || [];
+
+      if (position < targets.length) {
+        frame[1]++;
+        const target = targets[position];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          frames.push([target, 0]);
+        } else if (onStack.has(target)) {
+          lowLink.set(uid, Math.min(lowLink.get(uid)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1][0];
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(uid)!));
+      }
+      if (lowLink.get(uid) === index.get(uid)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== uid);
+        if (component.length > 1) components.push(component);
+      }
+    }
+  }
+
+  return components.map(component => {
+    const members = new Set(component);
+
+    // Walk support edges inside the component until a node repeats
+    const cycle: string[] = [];
+    const seen = new Map<string, number>();
+    let current = component[0];
+    while (!seen.has(current)) {
+      seen.set(current, cycle.length);
+      cycle.push(current);
+      current = (supportEdges.get(current) || []).find(target => members.has(target))!;
+    }
+    const loop = cycle.slice(seen.get(current));
+
+    let externalSupport = 0;
+    for (const uid of component) {
+      externalSupport += incoming(dataStore, uid, "support").filter(source => !members.has(source)).length;
+    }
+
+    return {
+      kind: "circular" as const,
+      nodeUids: loop,
+      sides: [],
+      balance: component.length,
+      total: externalSupport
+    };
+  });
+}
+
+/**
+ * Oppositions between two nodes that both have supporters
+ */
+function findOpposedSupport(dataStore: DataStore): Conflict[] {
+  const conflicts = new Map<string, Conflict>();
+
+  for (const relation of dataStore.allRelations) {
+    if (relationPolarity(relation.label) !== "oppose") continue;
+    const { sourceUid, destinationUid } = relation;
+    if (sourceUid === destinationUid) continue;
+    if (!dataStore.nodesByUid.has(sourceUid) || !dataStore.nodesByUid.has(destinationUid)) continue;
+
+    // One conflict per pair, whichever way the opposition points
+    const key = [sourceUid, destinationUid].sort().join("\u0000");
+    if (conflicts.has(key)) continue;
+
+    const sourceSupporters = incoming(dataStore, sourceUid, "support").filter(uid => uid !== destinationUid);
+    const destinationSupporters = incoming(dataStore, destinationUid, "support").filter(uid => uid !== sourceUid);
+    if (sourceSupporters.length === 0 || destinationSupporters.length === 0) continue;
+
+    conflicts.set(key, {
+      kind: "opposedSupport",
+      nodeUids: [sourceUid, destinationUid],
+      sides: [
+        { claimUid: sourceUid, stance: "support", nodeUids: sourceSupporters },
+        { claimUid: destinationUid, stance: "support", nodeUids: destinationSupporters }
+      ],
+      balance: Math.min(sourceSupporters.length, destinationSupporters.length),
+      total: sourceSupporters.length + destinationSupporters.length
+    });
+  }
+
+  return Array.from(conflicts.values());
+}
+
+/**
+ * Find conflicts of the requested kinds
+ *
+ * Contested claims and opposed pairs are ranked by the evidence on their
+ * weaker side, then by total evidence. Support cycles are ranked by size,
+ * then by how much outside support rests on them.
+ *
+ * @param dataStore - The data store
+ * @param kinds - Conflict kinds to look for
+ * @returns Ranked conflicts by kind
+ */
+export function findConflicts(dataStore: DataStore, kinds: ConflictKind[]): ConflictReport {
+  return {
+    contested: kinds.includes("contested") ? rankConflicts(findContested(dataStore)) : [],
+    circular: kinds.includes("circular") ? rankConflicts(findCircularSupport(dataStore)) : [],
+    opposedSupport: kinds.includes("opposedSupport") ? rankConflicts(findOpposedSupport(dataStore)) : []
+  };
+}
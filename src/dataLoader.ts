@@ -1,7 +1,7 @@
 /**
  * Data Loader
  *
- * Parses the JSON-LD file and builds searchable indexes.
+ * Streams the JSON-LD file and builds searchable indexes.
  * The data comes from the Akamatsu lab's Roam Research discourse graph.
  */
 
@@ -13,18 +13,22 @@ import {
   RawRelationInstance,
   RawNodeSchema,
   RawGraphEntry,
-  JsonLdDocument,
   NodeType,
   RelationDef,
   RelationInstance,
   NodeSchema
 } from "./types.js";
 import { extractImageUrls } from "./imageParser.js";
-
-/**
- * Regex to extract node type from title: [[RES]], [[CON]], etc.
- */
-const NODE_TYPE_REGEX = /^\[\[([A-Z]{3})\]\]/;
+import { buildSearchIndex, SearchIndex } from "./searchIndex.js";
+import { streamArrayEntries } from "./jsonStream.js";
+import {
+  compileTitleGrammar,
+  DEFAULT_TITLE_GRAMMAR,
+  parseTitle,
+  resolveNodeType,
+  TitleGrammar,
+  TitleGrammarConfig
+} from "./titleGrammar.js";
 
 /**
  * Extract UID from @id field (pages: prefix)
@@ -67,27 +71,6 @@ function isDiscourseNode(entry: RawGraphEntry): entry is RawJsonLdNode {
          entry["@type"] !== "relationInstance";
 }
 
-/**
- * Extract node type from title prefix
- * Example: "[[RES]] - The antagonistic force..." -> "RES"
- */
-function extractNodeType(title: string): NodeType | null {
-  const match = title.match(NODE_TYPE_REGEX);
-  if (match) {
-    const type = match[1] as NodeType;
-    return type;
-  }
-  return null;
-}
-
-/**
- * Remove [[XXX]] - prefix from title to get clean title
- * Example: "[[RES]] - The antagonistic force..." -> "The antagonistic force..."
- */
-function cleanTitle(title: string): string {
-  return title.replace(/^\[\[[A-Z]{3}\]\]\s*-?\s*/, "").trim();
-}
-
 /**
  * Build Roam URL from UID
  */
@@ -97,17 +80,19 @@ function buildUrl(uid: string): string {
 
 /**
  * Parse raw JSON-LD node into DiscourseNode
- * Uses textRefersToNode for linked references (no regex parsing needed)
+ * Uses textRefersToNode for linked references (no regex parsing needed).
+ * nodeType holds the raw title token until schemas are loaded.
  */
-function parseNode(raw: RawJsonLdNode): DiscourseNode {
+function parseNode(raw: RawJsonLdNode, grammar: TitleGrammar): DiscourseNode {
   const uid = extractUid(raw["@id"]);
   // Use textRefersToNode directly instead of regex parsing
   const linkedNodeUids = (raw.textRefersToNode || []).map(extractRefUid);
+  const { typeToken, titleClean } = parseTitle(grammar, raw.title);
   return {
     uid,
-    nodeType: extractNodeType(raw.title),
+    nodeType: typeToken,
     title: raw.title,
-    titleClean: cleanTitle(raw.title),
+    titleClean,
     content: raw.content,
     creator: raw.creator,
     created: raw.created,
@@ -136,15 +121,21 @@ export interface DataStore {
   relationsBySource: Map<string, RelationInstance[]>;
   /** Relation instances indexed by destination node UID */
   relationsByDestination: Map<string, RelationInstance[]>;
+  /** Nodes whose text references a node, indexed by the referenced UID */
+  nodesReferencingUid: Map<string, DiscourseNode[]>;
   /** All relation instances */
   allRelations: RelationInstance[];
   /** Node schemas indexed by UID */
   nodeSchemas: Map<string, NodeSchema>;
+  /** UIDs that appeared on more than one @graph entry, with occurrence counts */
+  duplicateIds: Map<string, number>;
+  /** Inverted index for ranked keyword search */
+  searchIndex: SearchIndex;
 }
 
 /**
  * Map node schema UID to NodeType
- * Example: "_CLM-node" -> "CLM"
+ * Example: "_CLM-node" -> "CLM" (other UIDs: null, the label is used instead)
  */
 function schemaUidToNodeType(schemaUid: string): NodeType | null {
   const match = schemaUid.match(/^_([A-Z]{3})-node$/);
@@ -155,20 +146,36 @@ function schemaUidToNodeType(schemaUid: string): NodeType | null {
 }
 
 /**
- * Load and index the JSON-LD data file
+ * Incremental DataStore builder
  *
- * @param dataPath - Path to the JSON-LD file
- * @returns DataStore with indexed nodes
+ * Entries may arrive in any order. Nodes and relation instances are indexed
+ * as they arrive; node types and labels that depend on node schemas and
+ * relation definitions are resolved in finish(), once every entry has been
+ * seen.
+ *
+ * Entries are added in layers (the export, then the overlay, then drafts).
+ * Only @ids repeated within a layer count as duplicates. Within the first
+ * layer every node entry is kept in allNodes, as exported; a later layer
+ * repeating a node's UID is an edit and replaces the node in place.
  */
-export function loadData(dataPath: string): DataStore {
-  // Read and parse the JSON-LD file
-  const rawContent = fs.readFileSync(dataPath, "utf-8");
-  const jsonLd: JsonLdDocument = JSON.parse(rawContent);
+interface DataStoreBuilder {
+  addEntry(entry: RawGraphEntry): void;
+  startLayer(): void;
+  finish(): DataStore;
+}
 
-  // Initialize indexes for nodes
+/**
+ * Create an empty DataStore builder
+ *
+ * @param grammar - How node types are written in titles
+ */
+function createDataStoreBuilder(grammar: TitleGrammar): DataStoreBuilder {
+  // Initialize node indexes (the others are built in finish())
   const nodesByUid = new Map<string, DiscourseNode>();
-  const nodesByCreator = new Map<string, DiscourseNode[]>();
   const allNodes: DiscourseNode[] = [];
+  // Position in allNodes of the node nodesByUid holds for each UID
+  const nodePositions = new Map<string, number>();
+  let layer = 0;
 
   // Initialize indexes for relationships
   const relationDefs = new Map<string, RelationDef>();
@@ -179,15 +186,26 @@ export function loadData(dataPath: string): DataStore {
   // Initialize indexes for node schemas
   const nodeSchemas = new Map<string, NodeSchema>();
 
-  // First pass: collect node schemas and relation definitions
-  // (needed to resolve labels before processing instances)
-  for (const entry of jsonLd["@graph"]) {
+  // Track repeated @ids for validation (per layer)
+  let seenIds = new Set<string>();
+  const duplicateIds = new Map<string, number>();
+
+  function addEntry(entry: RawGraphEntry): void {
+    if ("@id" in entry && entry["@id"]) {
+      const uid = extractUid(entry["@id"]);
+      if (seenIds.has(uid)) {
+        duplicateIds.set(uid, (duplicateIds.get(uid) || 1) + 1);
+      } else {
+        seenIds.add(uid);
+      }
+    }
+
     if (isNodeSchema(entry)) {
       const uid = extractUid(entry["@id"]);
       const schema: NodeSchema = {
         uid,
         label: entry.label,
-        nodeType: schemaUidToNodeType(uid)
+        nodeType: schemaUidToNodeType(uid) ?? entry.label
       };
       nodeSchemas.set(uid, schema);
     } else if (isRelationDef(entry)) {
@@ -206,46 +224,34 @@ export function loadData(dataPath: string): DataStore {
         };
         relationDefs.set(uid, relDef);
       }
-    }
-  }
-
-  // Resolve domain/range labels for relation definitions
-  for (const relDef of relationDefs.values()) {
-    const domainSchema = nodeSchemas.get(relDef.domainUid);
-    const rangeSchema = nodeSchemas.get(relDef.rangeUid);
-    relDef.domainLabel = domainSchema?.label || relDef.domainUid;
-    relDef.rangeLabel = rangeSchema?.label || relDef.rangeUid;
-  }
-
-  // Second pass: process nodes and relation instances
-  for (const entry of jsonLd["@graph"]) {
-    if (isDiscourseNode(entry)) {
-      const node = parseNode(entry);
+    } else if (isDiscourseNode(entry)) {
+      const node = parseNode(entry, grammar);
 
-      // Index by UID
+      // Nodes from later layers replace the node they edit in place
+      const position = nodePositions.get(node.uid);
+      if (layer > 0 && position !== undefined) {
+        allNodes[position] = node;
+      } else {
+        nodePositions.set(node.uid, allNodes.length);
+        allNodes.push(node);
+      }
       nodesByUid.set(node.uid, node);
-
-      // Index by creator
-      const creatorNodes = nodesByCreator.get(node.creator) || [];
-      creatorNodes.push(node);
-      nodesByCreator.set(node.creator, creatorNodes);
-
-      // Add to all nodes array
-      allNodes.push(node);
     } else if (isRelationInstance(entry)) {
       const predicateUid = extractUid(entry.predicate);
       const sourceUid = extractUid(entry.source);
       const destinationUid = extractUid(entry.destination);
 
-      // Lookup the relation definition to get the label
-      const relDef = relationDefs.get(predicateUid);
-      const label = relDef?.label || "unknown";
-
       const relation: RelationInstance = {
         predicateUid,
         sourceUid,
         destinationUid,
-        label
+        // Resolved once all relation definitions, schemas and nodes are loaded
+        label: "",
+        conformsToSchema: false,
+        expectedSourceType: null,
+        expectedDestinationType: null,
+        sourceType: null,
+        destinationType: null
       };
 
       // Index by source
@@ -263,18 +269,189 @@ export function loadData(dataPath: string): DataStore {
     }
   }
 
-  // Get unique creator names
-  const allCreators = Array.from(nodesByCreator.keys()).sort();
+  function startLayer(): void {
+    seenIds = new Set<string>();
+    layer++;
+  }
 
-  return {
-    nodesByUid,
-    nodesByCreator,
-    allNodes,
-    allCreators,
-    relationDefs,
-    relationsBySource,
-    relationsByDestination,
-    allRelations,
-    nodeSchemas
-  };
+  function finish(): DataStore {
+    const nodesByCreator = new Map<string, DiscourseNode[]>();
+    const nodesReferencingUid = new Map<string, DiscourseNode[]>();
+    for (const node of allNodes) {
+      // Index by creator
+      const creatorNodes = nodesByCreator.get(node.creator) || [];
+      creatorNodes.push(node);
+      nodesByCreator.set(node.creator, creatorNodes);
+
+      // Index text references by referenced UID (once per referencing node)
+      for (const linkedUid of new Set(node.linkedNodeUids)) {
+        if (linkedUid === node.uid) continue;
+        const referencing = nodesReferencingUid.get(linkedUid) || [];
+        referencing.push(node);
+        nodesReferencingUid.set(linkedUid, referencing);
+      }
+    }
+
+    // Resolve title type tokens against the node schemas
+    const resolvedTypes = new Map<string, NodeType>();
+    for (const node of allNodes) {
+      if (node.nodeType === null) continue;
+      let resolved = resolvedTypes.get(node.nodeType);
+      if (resolved === undefined) {
+        resolved = resolveNodeType(grammar, node.nodeType, nodeSchemas);
+        resolvedTypes.set(node.nodeType, resolved);
+      }
+      node.nodeType = resolved;
+    }
+
+    // Resolve domain/range labels for relation definitions
+    for (const relDef of relationDefs.values()) {
+      const domainSchema = nodeSchemas.get(relDef.domainUid);
+      const rangeSchema = nodeSchemas.get(relDef.rangeUid);
+      relDef.domainLabel = domainSchema?.label || relDef.domainUid;
+      relDef.rangeLabel = rangeSchema?.label || relDef.rangeUid;
+    }
+
+    // Lookup the relation definition to get each instance's label, and
+    // check the endpoint types against its domain and range
+    for (const relation of allRelations) {
+      const relDef = relationDefs.get(relation.predicateUid);
+      relation.label = relDef?.label || "unknown";
+      relation.expectedSourceType = relDef ? nodeSchemas.get(relDef.domainUid)?.nodeType ?? null : null;
+      relation.expectedDestinationType = relDef ? nodeSchemas.get(relDef.rangeUid)?.nodeType ?? null : null;
+      relation.sourceType = nodesByUid.get(relation.sourceUid)?.nodeType ?? null;
+      relation.destinationType = nodesByUid.get(relation.destinationUid)?.nodeType ?? null;
+      relation.conformsToSchema =
+        relDef !== undefined &&
+        nodesByUid.has(relation.sourceUid) &&
+        nodesByUid.has(relation.destinationUid) &&
+        (relation.expectedSourceType === null || relation.sourceType === relation.expectedSourceType) &&
+        (relation.expectedDestinationType === null ||
+          relation.destinationType === relation.expectedDestinationType);
+    }
+
+    // Get unique creator names
+    const allCreators = Array.from(nodesByCreator.keys()).sort();
+
+    return {
+      nodesByUid,
+      nodesByCreator,
+      allNodes,
+      allCreators,
+      relationDefs,
+      relationsBySource,
+      relationsByDestination,
+      nodesReferencingUid,
+      allRelations,
+      nodeSchemas,
+      duplicateIds,
+      searchIndex: buildSearchIndex(allNodes)
+    };
+  }
+
+  return { addEntry, startLayer, finish };
+}
+
+/**
+ * Load and index the JSON-LD data file
+ *
+ * The file is streamed: `@graph` entries are indexed as they are read, so
+ * memory use is bounded by the indexes rather than the raw export. Entries
+ * from an overlay file (see writeBackend.ts) are added on top, if it exists;
+ * overlay nodes with the UID of an exported node replace it.
+ *
+ * @param dataPath - Path to the JSON-LD file
+ * @param titleGrammar - How node types are written in titles (default: "[[XXX]] - ")
+ * @param overlayPath - Overlay file with entries created through the write tools
+ * @returns DataStore with indexed nodes
+ */
+export async function loadData(
+  dataPath: string,
+  titleGrammar: TitleGrammarConfig = DEFAULT_TITLE_GRAMMAR,
+  overlayPath: string | null = null
+): Promise<DataStore> {
+  const builder = createDataStoreBuilder(compileTitleGrammar(titleGrammar));
+  const addEntry = (entry: unknown) => builder.addEntry(entry as RawGraphEntry);
+
+  await streamArrayEntries(dataPath, "@graph", addEntry);
+  if (overlayPath && fs.existsSync(overlayPath)) {
+    builder.startLayer();
+    await streamArrayEntries(overlayPath, "@graph", addEntry);
+  }
+  return builder.finish();
+}
+
+/**
+ * Turn a store back into @graph entries
+ * Enough for the builder to index them again; node @types are not kept.
+ */
+function storeEntries(dataStore: DataStore): RawGraphEntry[] {
+  const entries: RawGraphEntry[] = [];
+  for (const schema of dataStore.nodeSchemas.values()) {
+    entries.push({
+      "@id": `pages:${schema.uid}`,
+      "@type": "nodeSchema",
+      label: schema.label,
+      content: "",
+      modified: "",
+      created: "",
+      creator: ""
+    });
+  }
+  for (const relDef of dataStore.relationDefs.values()) {
+    entries.push({
+      "@id": `pages:${relDef.uid}`,
+      "@type": "relationDef",
+      label: relDef.label,
+      domain: `pages:${relDef.domainUid}`,
+      range: `pages:${relDef.rangeUid}`
+    });
+  }
+  for (const node of dataStore.allNodes) {
+    entries.push({
+      "@id": `pages:${node.uid}`,
+      "@type": "",
+      title: node.title,
+      content: node.content,
+      modified: node.modified,
+      created: node.created,
+      creator: node.creator,
+      textRefersToNode: node.linkedNodeUids.map(uid => `page:${uid}`)
+    });
+  }
+  for (const relation of dataStore.allRelations) {
+    entries.push({
+      "@type": "relationInstance",
+      predicate: `pages:${relation.predicateUid}`,
+      source: `pages:${relation.sourceUid}`,
+      destination: `pages:${relation.destinationUid}`
+    });
+  }
+  return entries;
+}
+
+/**
+ * Build a new store from a loaded one plus extra entries, as a layer on top
+ * (see draftView in dataset.ts). The loaded store is not modified.
+ *
+ * @param dataStore - The loaded store
+ * @param titleGrammar - The grammar the store was loaded with
+ * @param entries - Entries to add; nodes with existing UIDs replace them
+ * @returns A new DataStore (duplicate @ids of the loaded store carry over)
+ */
+export function extendStore(
+  dataStore: DataStore,
+  titleGrammar: TitleGrammarConfig,
+  entries: RawGraphEntry[]
+): DataStore {
+  const builder = createDataStoreBuilder(compileTitleGrammar(titleGrammar));
+  for (const entry of storeEntries(dataStore)) builder.addEntry(entry);
+  builder.startLayer();
+  for (const entry of entries) builder.addEntry(entry);
+
+  const extended = builder.finish();
+  for (const [uid, count] of dataStore.duplicateIds) {
+    if (!extended.duplicateIds.has(uid)) extended.duplicateIds.set(uid, count);
+  }
+  return extended;
 }
@@ -0,0 +1,459 @@
+/**
+ * Dataset Lifecycle
+ *
+ * Owns the live DataStore for a JSON-LD export, along with load metadata
+ * (time, duration, file hash). Reloads rebuild a new DataStore off to the
+ * side and swap it in only once parsing succeeds, so a malformed export
+ * never replaces a working one.
+ *
+ * Built stores are cached on disk when an index cache is configured (see
+ * indexCache.ts), so unchanged exports load without re-parsing.
+ *
+ * Each dataset may have its own title grammar (see titleGrammar.ts); it is
+ * kept with the dataset so reloads parse titles the same way.
+ *
+ * A dataset with an overlay file is writable: the write tools append to the
+ * overlay (see writeBackend.ts), which is merged on top of the export on
+ * every load.
+ *
+ * A dataset with a drafts file collects proposed changes for review (see
+ * drafts.ts); draftView() serves the store with those changes applied.
+ *
+ * A dataset with a history directory can be compared with or queried as of
+ * its earlier exports (see history.ts), which load through the same index
+ * cache.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { extendStore, loadData, DataStore } from "./dataLoader.js";
+import { RawGraphEntry } from "./types.js";
+import { readIndexCache, writeIndexCache } from "./indexCache.js";
+import { DEFAULT_TITLE_GRAMMAR, TitleGrammarConfig, titleGrammarFingerprint } from "./titleGrammar.js";
+import { createOverlayBackend, WriteBackend } from "./writeBackend.js";
+import { activeDraftEntries, DraftLog, openDraftLog } from "./drafts.js";
+
+/**
+ * Description of a failed reload attempt
+ */
+export interface ReloadFailure {
+  message: string;
+  at: string;        // ISO timestamp of the failed attempt
+  fileHash: string | null;
+}
+
+/**
+ * Index cache settings
+ */
+export interface IndexCacheOptions {
+  /** Directory holding cache files */
+  dir: string;
+  /** Ignore existing caches on open and rebuild them from the export */
+  rebuild: boolean;
+}
+
+/**
+ * Where the current store came from
+ * - hit: loaded from a valid cache file
+ * - miss: no valid cache, built from the export
+ * - rebuilt: cache ignored on request, built from the export
+ * - disabled: no index cache configured
+ */
+export type IndexCacheStatus = "hit" | "miss" | "rebuilt" | "disabled";
+
+/**
+ * Load metadata for the currently served store
+ */
+export interface DatasetInfo {
+  name: string;
+  dataPath: string;
+  loadedAt: string;       // ISO timestamp of the last successful load
+  loadDurationMs: number;
+  fileHash: string;       // sha256 of the loaded file
+  fileSize: number;       // bytes
+  overlayPath: string | null;  // Overlay merged on top of the export (null = read-only)
+  overlayHash: string | null;  // sha256 of the loaded overlay (null = none on disk)
+  draftsPath: string | null;   // Proposed changes awaiting review (null = no drafts)
+  historyDir: string | null;   // Earlier exports of this dataset (null = no history)
+  reloadCount: number;    // successful reloads since startup
+  lastReloadError: ReloadFailure | null;
+  watching: boolean;
+  indexCache: IndexCacheStatus;
+  /** Last failure writing the index cache (the store is still served) */
+  indexCacheError: string | null;
+}
+
+/**
+ * A served dataset: the live store plus its metadata
+ *
+ * `store` is replaced wholesale on reload; callers should read it per
+ * request rather than holding on to it.
+ */
+export interface Dataset {
+  store: DataStore;
+  info: DatasetInfo;
+  /** In-flight reload, so concurrent triggers share one rebuild */
+  pendingReload: Promise<ReloadResult> | null;
+  /** Stops the file watcher, if one is running */
+  stopWatching: (() => void) | null;
+  /** Index cache settings (null when caching is disabled) */
+  cache: IndexCacheOptions | null;
+  /** How node types are written in titles */
+  titleGrammar: TitleGrammarConfig;
+  /** Where the write tools persist new entries (null = read-only) */
+  writer: WriteBackend | null;
+  /** Proposed changes awaiting review (null = drafts not configured) */
+  drafts: DraftLog | null;
+}
+
+/**
+ * Outcome of a reload attempt
+ */
+export type ReloadResult =
+  | { status: "reloaded"; info: DatasetInfo }
+  | { status: "unchanged"; info: DatasetInfo }
+  | { status: "failed"; error: ReloadFailure; info: DatasetInfo };
+
+/**
+ * Debounce for file change events (exports are often written in chunks)
+ */
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * Hash a file with sha256 without reading it into memory at once
+ */
+async function hashFile(filePath: string): Promise<{ fileHash: string; fileSize: number }> {
+  const hash = createHash("sha256");
+  let fileSize = 0;
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    fileSize += (chunk as Buffer).length;
+  }
+  return { fileHash: hash.digest("hex"), fileSize };
+}
+
+/**
+ * Hash the overlay file, if there is one on disk
+ */
+async function hashOverlay(overlayPath: string | null): Promise<string | null> {
+  if (!overlayPath || !fs.existsSync(overlayPath)) return null;
+  return (await hashFile(overlayPath)).fileHash;
+}
+
+/**
+ * Load a store from the index cache, or build it from the export
+ *
+ * Freshly built stores are written back to the cache. A failed cache write
+ * is reported but does not fail the load. Stores built with a non-default
+ * title grammar or with an overlay are cached under a key that includes them.
+ */
+async function loadStore(
+  dataPath: string,
+  fileHash: string,
+  titleGrammar: TitleGrammarConfig,
+  overlay: { path: string; hash: string } | null,
+  cache: IndexCacheOptions | null,
+  rebuild: boolean
+): Promise<{ store: DataStore; indexCache: IndexCacheStatus; indexCacheError: string | null }> {
+  const build = () => loadData(dataPath, titleGrammar, overlay?.path ?? null);
+  if (!cache) {
+    return { store: await build(), indexCache: "disabled", indexCacheError: null };
+  }
+
+  let cacheKey = fileHash;
+  if (titleGrammar !== DEFAULT_TITLE_GRAMMAR || overlay) {
+    const key = createHash("sha256").update(fileHash);
+    if (titleGrammar !== DEFAULT_TITLE_GRAMMAR) key.update(titleGrammarFingerprint(titleGrammar));
+    if (overlay) key.update(overlay.hash);
+    cacheKey = key.digest("hex");
+  }
+
+  if (!rebuild) {
+    const cached = await readIndexCache(cache.dir, dataPath, cacheKey);
+    if (cached) {
+      return { store: cached, indexCache: "hit", indexCacheError: null };
+    }
+  }
+
+  const store = await build();
+  let indexCacheError: string | null = null;
+  try {
+    await writeIndexCache(cache.dir, dataPath, cacheKey, store);
+  } catch (error) {
+    indexCacheError = error instanceof Error ? error.message : String(error);
+  }
+  return { store, indexCache: rebuild ? "rebuilt" : "miss", indexCacheError };
+}
+
+/**
+ * Load an export on its own (no overlay), through the index cache
+ * Used for snapshots of a dataset (see history.ts).
+ *
+ * @param dataPath - Path to the JSON-LD export
+ * @param titleGrammar - How node types are written in titles
+ * @param cache - Index cache settings (null to always parse the export)
+ */
+export async function loadExport(
+  dataPath: string,
+  titleGrammar: TitleGrammarConfig = DEFAULT_TITLE_GRAMMAR,
+  cache: IndexCacheOptions | null = null
+): Promise<DataStore> {
+  const { fileHash } = await hashFile(dataPath);
+  const { store } = await loadStore(dataPath, fileHash, titleGrammar, null, cache, false);
+  return store;
+}
+
+/**
+ * Load a dataset for the first time
+ *
+ * @param dataPath - Path to the JSON-LD export
+ * @param name - Dataset name (see registry)
+ * @param cache - Index cache settings (null to always parse the export)
+ * @param titleGrammar - How node types are written in titles
+ * @param overlayPath - Overlay file for the write tools (null = read-only)
+ * @param draftsPath - Drafts file for proposed changes (null = no drafts)
+ * @param historyDir - Directory of earlier exports (null = no history)
+ * @returns The dataset (rejects if the file cannot be loaded)
+ */
+export async function openDataset(
+  dataPath: string,
+  name: string,
+  cache: IndexCacheOptions | null = null,
+  titleGrammar: TitleGrammarConfig = DEFAULT_TITLE_GRAMMAR,
+  overlayPath: string | null = null,
+  draftsPath: string | null = null,
+  historyDir: string | null = null
+): Promise<Dataset> {
+  const started = Date.now();
+  const { fileHash, fileSize } = await hashFile(dataPath);
+  const overlayHash = await hashOverlay(overlayPath);
+  const { store, indexCache, indexCacheError } = await loadStore(
+    dataPath,
+    fileHash,
+    titleGrammar,
+    overlayPath && overlayHash ? { path: overlayPath, hash: overlayHash } : null,
+    cache,
+    cache?.rebuild ?? false
+  );
+  const drafts = draftsPath ? await openDraftLog(draftsPath) : null;
+
+  return {
+    store,
+    info: {
+      name,
+      dataPath,
+      loadedAt: new Date().toISOString(),
+      loadDurationMs: Date.now() - started,
+      fileHash,
+      fileSize,
+      overlayPath,
+      overlayHash,
+      draftsPath,
+      historyDir,
+      reloadCount: 0,
+      lastReloadError: null,
+      watching: false,
+      indexCache,
+      indexCacheError
+    },
+    pendingReload: null,
+    stopWatching: null,
+    cache,
+    titleGrammar,
+    writer: overlayPath ? createOverlayBackend(overlayPath) : null,
+    drafts
+  };
+}
+
+/**
+ * Store with the dataset's pending and accepted drafts applied, per store
+ * and drafts revision
+ */
+const draftViews = new WeakMap<DataStore, { revision: number; store: DataStore }>();
+
+/**
+ * The dataset's store as it would be with its pending and accepted drafts
+ *
+ * Built on first use after each change to the store or the drafts. Without
+ * drafts this is the served store itself.
+ *
+ * @param dataset - The dataset
+ */
+export function draftView(dataset: Dataset): DataStore {
+  const drafts = dataset.drafts;
+  if (!drafts) return dataset.store;
+
+  const cached = draftViews.get(dataset.store);
+  if (cached && cached.revision === drafts.revision()) return cached.store;
+
+  const entries = activeDraftEntries(drafts.list(), dataset.store);
+  const store = entries.length === 0 ? dataset.store : extendStore(dataset.store, dataset.titleGrammar, entries);
+  draftViews.set(dataset.store, { revision: drafts.revision(), store });
+  return store;
+}
+
+/**
+ * Reloads in flight that were forced
+ */
+const forcedReloads = new WeakSet<Promise<ReloadResult>>();
+
+/**
+ * Rebuild the dataset's store from disk and swap it in on success
+ *
+ * Unchanged files (same hash) are skipped unless force is set, in which
+ * case the index cache is rebuilt too. On failure the current store keeps
+ * serving and the error is recorded in the info. A call made while a reload
+ * is running shares it, unless it forces and the running one does not: the
+ * forced reload then runs after it.
+ *
+ * @param dataset - The dataset to reload
+ * @param force - Reload even if the file hash has not changed
+ */
+export function reloadDataset(dataset: Dataset, force: boolean = false): Promise<ReloadResult> {
+  if (dataset.pendingReload) {
+    if (!force || forcedReloads.has(dataset.pendingReload)) {
+      return dataset.pendingReload;
+    }
+    return dataset.pendingReload.then(() => reloadDataset(dataset, true));
+  }
+
+  const reload = (async (): Promise<ReloadResult> => {
+    const { dataPath, overlayPath } = dataset.info;
+    const started = Date.now();
+    let fileHash: string | null = null;
+
+    try {
+      const file = await hashFile(dataPath);
+      fileHash = file.fileHash;
+      const overlayHash = await hashOverlay(overlayPath);
+
+      if (!force && fileHash === dataset.info.fileHash && overlayHash === dataset.info.overlayHash) {
+        return { status: "unchanged", info: dataset.info };
+      }
+
+      // Build the new store before touching the served one
+      const { store, indexCache, indexCacheError } = await loadStore(
+        dataPath,
+        fileHash,
+        dataset.titleGrammar,
+        overlayPath && overlayHash ? { path: overlayPath, hash: overlayHash } : null,
+        dataset.cache,
+        force
+      );
+
+      dataset.store = store;
+      dataset.info = {
+        ...dataset.info,
+        loadedAt: new Date().toISOString(),
+        loadDurationMs: Date.now() - started,
+        fileHash,
+        fileSize: file.fileSize,
+        overlayHash,
+        reloadCount: dataset.info.reloadCount + 1,
+        lastReloadError: null,
+        indexCache,
+        indexCacheError
+      };
+      return { status: "reloaded", info: dataset.info };
+    } catch (error) {
+      const failure: ReloadFailure = {
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+        fileHash
+      };
+      dataset.info = { ...dataset.info, lastReloadError: failure };
+      return { status: "failed", error: failure, info: dataset.info };
+    }
+  })();
+
+  dataset.pendingReload = reload.finally(() => {
+    dataset.pendingReload = null;
+  });
+  if (force) forcedReloads.add(dataset.pendingReload);
+  return dataset.pendingReload;
+}
+
+/**
+ * Persist new entries through the dataset's write backend, then reload so
+ * they are served
+ *
+ * A reload already in flight may have read the overlay before this write
+ * landed, so reloads repeat until the served overlay matches the file.
+ *
+ * @param dataset - A writable dataset (one with a writer)
+ * @param entries - JSON-LD @graph entries to add
+ * @returns Outcome of the final reload (the entries are written either way)
+ */
+export async function writeToDataset(
+  dataset: Dataset,
+  entries: RawGraphEntry[]
+): Promise<ReloadResult> {
+  if (!dataset.writer) {
+    throw new Error(`Dataset '${dataset.info.name}' is read-only`);
+  }
+  await dataset.writer.append(entries);
+
+  let result = await reloadDataset(dataset);
+  while (result.status !== "failed") {
+    const onDisk = await hashOverlay(dataset.info.overlayPath);
+    if (onDisk === dataset.info.overlayHash) break;
+    result = await reloadDataset(dataset);
+  }
+  return result;
+}
+
+/**
+ * Watch the dataset's file and reload when it changes
+ *
+ * Watches the parent directory rather than the file itself, so exports
+ * written by replacing the file (rename into place) are still seen. If the
+ * directory cannot be watched, or the watcher fails later, the error is
+ * logged and the dataset is left unwatched (reload_data still works).
+ *
+ * @param dataset - The dataset to watch
+ * @param onReload - Called with the outcome of each triggered reload
+ */
+export function watchDataset(
+  dataset: Dataset,
+  onReload: (result: ReloadResult) => void
+): void {
+  if (dataset.stopWatching) return;
+
+  const directory = path.dirname(dataset.info.dataPath);
+  const filename = path.basename(dataset.info.dataPath);
+  let timer: NodeJS.Timeout | null = null;
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(directory, (_event, changed) => {
+      if (changed && changed.toString() !== filename) return;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        // Skip events for a file that is mid-replacement
+        if (!fs.existsSync(dataset.info.dataPath)) return;
+        reloadDataset(dataset).then(onReload);
+      }, WATCH_DEBOUNCE_MS);
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Cannot watch ${dataset.info.dataPath} for changes: ${message}`);
+    dataset.info = { ...dataset.info, watching: false };
+    return;
+  }
+
+  watcher.on("error", error => {
+    console.error(`Stopped watching ${dataset.info.dataPath} for changes: ${error.message}`);
+    dataset.stopWatching?.();
+  });
+
+  dataset.stopWatching = () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+    dataset.stopWatching = null;
+    dataset.info = { ...dataset.info, watching: false };
+  };
+  dataset.info = { ...dataset.info, watching: true };
+}
@@ -0,0 +1,101 @@
+/**
+ * Date Handling
+ *
+ * Parses the date strings used in node metadata and tool arguments.
+ * Node dates are ISO timestamps; arguments may also be date-only
+ * ("2024-01-01"), which cover the whole UTC day.
+ */
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A parsed date as a half-open time span [start, end) in epoch milliseconds
+ * Date-only values span the whole day; timestamps span one millisecond.
+ */
+export interface DateSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a date or timestamp string
+ *
+ * @param value - e.g. "2024-01-01" or "2024-01-01T12:30:00.000Z"
+ * @returns The time span, or null if the string is not a valid date
+ */
+export function parseDateSpan(value: string): DateSpan | null {
+  const trimmed = value.trim();
+  const start = Date.parse(trimmed);
+  if (Number.isNaN(start)) return null;
+
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  return { start, end: isDateOnly ? start + DAY_MS : start + 1 };
+}
+
+/**
+ * Parse a timestamp to epoch milliseconds
+ *
+ * @returns Epoch milliseconds, or null if the string is not a valid date
+ */
+export function parseTimestamp(value: string): number | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Compare two date strings chronologically
+ * Unparseable dates sort before all valid dates.
+ */
+export function compareDates(a: string, b: string): number {
+  const timeA = parseTimestamp(a) ?? -Infinity;
+  const timeB = parseTimestamp(b) ?? -Infinity;
+  if (timeA === timeB) return 0;
+  return timeA < timeB ? -1 : 1;
+}
+
+/**
+ * Optional creation and modification windows (date strings as given)
+ */
+export interface DateRangeFilter {
+  createdAfter?: string;
+  createdBefore?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+}
+
+/**
+ * Check whether a timestamp is within an after/before window
+ * "after" includes the given day or instant; "before" excludes it.
+ */
+function inWindow(value: string, after?: string, before?: string): boolean {
+  if (!after && !before) return true;
+
+  const time = parseTimestamp(value);
+  if (time === null) return false;
+
+  const afterSpan = after ? parseDateSpan(after) : null;
+  const beforeSpan = before ? parseDateSpan(before) : null;
+  if (afterSpan && time < afterSpan.start) return false;
+  if (beforeSpan && time >= beforeSpan.start) return false;
+  return true;
+}
+
+/**
+ * Check whether a node's dates fall within the given windows
+ *
+ * @param node - Anything with created/modified timestamps
+ * @param range - Creation and modification windows
+ * @returns True if both windows are satisfied (missing bounds are open)
+ */
+export function isInDateRange(
+  node: { created: string; modified: string },
+  range: DateRangeFilter
+): boolean {
+  return (
+    inWindow(node.created, range.createdAfter, range.createdBefore) &&
+    inWindow(node.modified, range.modifiedAfter, range.modifiedBefore)
+  );
+}
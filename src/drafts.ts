@@ -0,0 +1,267 @@
+/**
+ * Drafts
+ *
+ * Changes proposed by an agent (new nodes, new relations, node edits) are
+ * kept out of the graph until someone reviews them. Each draft holds the
+ * JSON-LD entry it would add (see authoring.ts) and a status:
+ * - pending: proposed, not reviewed yet
+ * - accepted: approved; included in the exported fragment
+ * - rejected: discarded; kept for the record
+ *
+ * Drafts are stored per dataset in their own JSON file, never in the export
+ * or the overlay. Read tools see pending and accepted drafts when asked to
+ * (see draftView in dataset.ts), and the accepted ones are exported as an
+ * `@graph` fragment that can be merged into the overlay or the source graph.
+ */
+
+import * as fs from "fs";
+import { DataStore } from "./dataLoader.js";
+import { JsonLdDocument, RawGraphEntry, RawJsonLdNode, RawRelationInstance } from "./types.js";
+import { writeFileAtomic } from "./writeBackend.js";
+
+/**
+ * What a draft changes
+ */
+export type DraftKind = "node" | "relation" | "edit";
+
+/**
+ * Review state of a draft
+ */
+export type DraftStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * A proposed change
+ */
+export interface Draft {
+  /** Draft ID, e.g. "draft-12" */
+  id: string;
+  kind: DraftKind;
+  status: DraftStatus;
+  /** UID of the proposed node or relation, or of the edited node */
+  uid: string;
+  /** Entry the draft adds (for edits, the full replacement node) */
+  entry: RawJsonLdNode | RawRelationInstance;
+  /** Edits only: the node as it was when the edit was proposed */
+  base?: { title: string; content: string; modified: string };
+  proposedBy: string;
+  proposedAt: string;   // ISO timestamp
+  /** Why the change was proposed */
+  note?: string;
+  reviewedAt?: string;  // ISO timestamp of the last accept/reject
+  reviewNote?: string;
+}
+
+/**
+ * A draft before it is stored (IDs and status are assigned by the log)
+ */
+export type NewDraft = Omit<Draft, "id" | "status" | "reviewedAt" | "reviewNote">;
+
+/**
+ * Drafts file contents
+ */
+interface DraftFile {
+  drafts: Draft[];
+}
+
+/**
+ * A dataset's drafts, kept in memory and saved to a JSON file
+ */
+export interface DraftLog {
+  /** Drafts file */
+  location: string;
+  /** All drafts, oldest first */
+  list(): Draft[];
+  /** Bumped on every change, so views built from the drafts can be cached */
+  revision(): number;
+  /** Store a new pending draft */
+  propose(draft: NewDraft): Promise<Draft>;
+  /** Accept or reject drafts; rejects if any ID is unknown */
+  review(ids: string[], status: "accepted" | "rejected", note?: string, now?: Date): Promise<Draft[]>;
+}
+
+/**
+ * Open a dataset's drafts file (created on the first proposal)
+ *
+ * @param draftsPath - Drafts file
+ */
+export async function openDraftLog(draftsPath: string): Promise<DraftLog> {
+  let drafts: Draft[] = [];
+  if (fs.existsSync(draftsPath)) {
+    const file: DraftFile = JSON.parse(await fs.promises.readFile(draftsPath, "utf-8"));
+    if (!Array.isArray(file.drafts)) {
+      throw new Error(`No "drafts" array found in ${draftsPath}`);
+    }
+    drafts = file.drafts;
+  }
+
+  let revision = 0;
+  let nextNumber =
+    1 + drafts.reduce((max, draft) => Math.max(max, Number(draft.id.replace(/^draft-/, "")) || 0), 0);
+  let queue: Promise<void> = Promise.resolve();
+
+  // Save the current drafts; writes are serialized so the last one wins
+  const save = (): Promise<void> => {
+    const text = JSON.stringify({ drafts } satisfies DraftFile, null, 1);
+    const write = queue.then(() => writeFileAtomic(draftsPath, text));
+    queue = write.catch(() => {});
+    return write;
+  };
+
+  const propose = async (draft: NewDraft): Promise<Draft> => {
+    const stored: Draft = { id: `draft-${nextNumber++}`, status: "pending", ...draft };
+    drafts = [...drafts, stored];
+    revision++;
+    await save();
+    return stored;
+  };
+
+  const review = async (
+    ids: string[],
+    status: "accepted" | "rejected",
+    note?: string,
+    now: Date = new Date()
+  ): Promise<Draft[]> => {
+    const unknown = ids.filter(id => !drafts.some(draft => draft.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown draft IDs: ${unknown.join(", ")}`);
+    }
+
+    const reviewedAt = now.toISOString();
+    drafts = drafts.map(draft =>
+      ids.includes(draft.id) ? { ...draft, status, reviewedAt, reviewNote: note } : draft
+    );
+    revision++;
+    await save();
+    return drafts.filter(draft => ids.includes(draft.id));
+  };
+
+  return {
+    location: draftsPath,
+    list: () => drafts,
+    revision: () => revision,
+    propose,
+    review
+  };
+}
+
+/**
+ * UIDs of the nodes a draft relies on: relation endpoints, or the edited node
+ */
+export function draftDependencies(draft: Draft): string[] {
+  if (draft.kind === "edit") return [draft.uid];
+  if (draft.kind === "relation") {
+    const entry = draft.entry as RawRelationInstance;
+    return [entry.source, entry.destination].map(ref => ref.replace(/^pages:/, ""));
+  }
+  return [];
+}
+
+/**
+ * UIDs of the proposed nodes with one of the given statuses
+ */
+function nodeDraftUids(drafts: Draft[], statuses: DraftStatus[]): Set<string> {
+  return new Set(
+    drafts.filter(draft => draft.kind === "node" && statuses.includes(draft.status)).map(draft => draft.uid)
+  );
+}
+
+/**
+ * Drafts that are not rejected but rely on a node that is neither in the
+ * graph nor proposed alongside them (e.g. a relation to a proposed node that
+ * was rejected). Accepted drafts need the node accepted; pending drafts need
+ * it pending or accepted.
+ *
+ * @param drafts - All drafts of a dataset
+ * @param dataStore - The served store (without drafts)
+ * @returns Each such draft with the missing node UIDs
+ */
+export function unresolvedDrafts(
+  drafts: Draft[],
+  dataStore: DataStore
+): { draft: Draft; missingUids: string[] }[] {
+  const acceptedNodes = nodeDraftUids(drafts, ["accepted"]);
+  const activeNodes = nodeDraftUids(drafts, ["pending", "accepted"]);
+  return drafts
+    .filter(draft => draft.status !== "rejected")
+    .map(draft => {
+      const proposed = draft.status === "accepted" ? acceptedNodes : activeNodes;
+      return {
+        draft,
+        missingUids: draftDependencies(draft).filter(uid => !dataStore.nodesByUid.has(uid) && !proposed.has(uid))
+      };
+    })
+    .filter(unresolved => unresolved.missingUids.length > 0);
+}
+
+/**
+ * Drafts among `ids` that cannot be accepted: they rely on a node that is
+ * neither in the graph nor a pending or accepted node draft (missing, or
+ * proposed and rejected)
+ *
+ * @param drafts - All drafts of a dataset
+ * @param ids - Drafts about to be accepted
+ * @param dataStore - The served store (without drafts)
+ * @returns Each such draft with the missing node UIDs
+ */
+export function unacceptableDrafts(
+  drafts: Draft[],
+  ids: string[],
+  dataStore: DataStore
+): { draft: Draft; missingUids: string[] }[] {
+  const activeNodes = nodeDraftUids(drafts, ["pending", "accepted"]);
+  return drafts
+    .filter(draft => ids.includes(draft.id))
+    .map(draft => ({
+      draft,
+      missingUids: draftDependencies(draft).filter(uid => !dataStore.nodesByUid.has(uid) && !activeNodes.has(uid))
+    }))
+    .filter(blocked => blocked.missingUids.length > 0);
+}
+
+/**
+ * Entries of the drafts that are not rejected, in proposal order
+ *
+ * Drafts relying on a node that is neither in the graph nor a pending or
+ * accepted node draft are left out, so a rejected node takes its relations
+ * along. Later edits of the same node replace earlier ones when loaded.
+ *
+ * @param drafts - All drafts of a dataset
+ * @param dataStore - The served store (without drafts)
+ */
+export function activeDraftEntries(drafts: Draft[], dataStore: DataStore): RawGraphEntry[] {
+  const activeNodes = nodeDraftUids(drafts, ["pending", "accepted"]);
+  return drafts
+    .filter(draft => draft.status !== "rejected")
+    .filter(draft => draftDependencies(draft).every(uid => dataStore.nodesByUid.has(uid) || activeNodes.has(uid)))
+    .map(draft => draft.entry);
+}
+
+/**
+ * Accepted drafts that can be exported: all of their nodes are in the graph
+ * or accepted (see unresolvedDrafts for the others)
+ *
+ * @param drafts - All drafts of a dataset
+ * @param dataStore - The served store (without drafts)
+ */
+export function exportableDrafts(drafts: Draft[], dataStore: DataStore): Draft[] {
+  const unresolved = new Set(unresolvedDrafts(drafts, dataStore).map(({ draft }) => draft.id));
+  return drafts.filter(draft => draft.status === "accepted" && !unresolved.has(draft.id));
+}
+
+/**
+ * Build a JSON-LD fragment of the exportable accepted drafts
+ *
+ * Entries for the same @id (a proposed node and later edits of it) are
+ * folded into the last one, so the fragment has one entry per node.
+ *
+ * @param drafts - All drafts of a dataset
+ * @param dataStore - The served store (without drafts)
+ * @param name - Dataset name, used for the fragment's @id
+ */
+export function exportAcceptedDrafts(drafts: Draft[], dataStore: DataStore, name: string): JsonLdDocument {
+  const entries = new Map<string, RawGraphEntry>();
+  for (const draft of exportableDrafts(drafts, dataStore)) {
+    entries.set(draft.entry["@id"] ?? draft.id, draft.entry);
+  }
+  return { "@context": {}, "@id": `${name}-accepted-drafts`, "@graph": Array.from(entries.values()) };
+}
@@ -0,0 +1,345 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable local sources of node embeddings for semantic search.
+ * Everything runs offline:
+ *
+ * - sidecar: precomputed vectors in a JSON file next to the export
+ *     { "model": "all-MiniLM-L6-v2", "vectors": { "<uid>": [0.01, ...] } }
+ *   Entries may be { "modified": "<iso date>", "vector": [...] } so vectors
+ *   computed from an older version of a node are ignored.
+ *
+ * - onnx: a sentence-embedding ONNX model on disk, run through the optional
+ *   @huggingface/transformers package with remote model downloads disabled.
+ *
+ * Vectors are cached by uid + modified date, optionally persisted to disk.
+ */
+
+import * as fs from "fs";
+import { DataStore } from "./dataLoader.js";
+import { DiscourseNode } from "./types.js";
+import { writeFileAtomic } from "./writeBackend.js";
+
+/**
+ * Source of embedding vectors
+ */
+export interface EmbeddingProvider {
+  /** Provider kind, for diagnostics */
+  readonly kind: "sidecar" | "onnx";
+  /** Model identifier (vectors from different models are never mixed) */
+  readonly model: string;
+  /** Whether free-text queries can be embedded (sidecar files cannot) */
+  readonly canEmbedText: boolean;
+  /** Embed a node, or return null if no vector is available for it */
+  embedNode(node: DiscourseNode): Promise<number[] | null>;
+  /** Embed free text (only when canEmbedText is true) */
+  embedText(text: string): Promise<number[]>;
+}
+
+/**
+ * Embedding configuration, usually read from environment variables
+ */
+export interface EmbeddingConfig {
+  /** EMBEDDING_PROVIDER: "sidecar" or "onnx" */
+  provider?: string;
+  /** EMBEDDINGS_PATH: sidecar JSON file (sidecar provider) */
+  sidecarPath?: string;
+  /** EMBEDDING_MODEL: model name or path (onnx provider) */
+  model?: string;
+  /** EMBEDDING_MODEL_DIR: directory holding local models (onnx provider) */
+  modelDir?: string;
+  /** EMBEDDING_CACHE_PATH: JSON file to persist cached vectors */
+  cachePath?: string;
+}
+
+/**
+ * Maximum characters of node text passed to an embedding model
+ */
+const MAX_EMBED_CHARS = 2000;
+
+/**
+ * Text representation of a node for embedding
+ */
+function nodeText(node: DiscourseNode): string {
+  return `${node.titleClean}\n\n${node.content}`.slice(0, MAX_EMBED_CHARS);
+}
+
+// ============================================================================
+// Sidecar Provider
+// ============================================================================
+
+interface SidecarFile {
+  model?: string;
+  vectors: Record<string, number[] | { modified?: string; vector: number[] }>;
+}
+
+/**
+ * Create a provider backed by a precomputed embeddings JSON file
+ *
+ * @param sidecarPath - Path to the sidecar JSON file
+ */
+export function createSidecarProvider(sidecarPath: string): EmbeddingProvider {
+  const sidecar: SidecarFile = JSON.parse(fs.readFileSync(sidecarPath, "utf-8"));
+  const entries = new Map(Object.entries(sidecar.vectors || {}));
+
+  return {
+    kind: "sidecar",
+    model: sidecar.model || `sidecar:${sidecarPath}`,
+    canEmbedText: false,
+    async embedNode(node) {
+      const entry = entries.get(node.uid);
+      if (!entry) return null;
+      if (Array.isArray(entry)) return entry;
+      // Skip vectors computed from an older version of the node
+      if (entry.modified && entry.modified !== node.modified) return null;
+      return entry.vector;
+    },
+    async embedText() {
+      throw new Error(
+        "The sidecar embedding provider cannot embed free text. Search by node uid instead, or configure EMBEDDING_PROVIDER=onnx."
+      );
+    }
+  };
+}
+
+// ============================================================================
+// ONNX Provider
+// ============================================================================
+
+type FeatureExtractor = (
+  text: string,
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ data: Float32Array }>;
+
+/**
+ * The parts of @huggingface/transformers used here
+ */
+interface TransformersModule {
+  env: { allowRemoteModels: boolean; localModelPath: string };
+  pipeline(task: "feature-extraction", model: string): Promise<FeatureExtractor>;
+}
+
+/**
+ * Create a provider that runs a local ONNX sentence-embedding model
+ *
+ * Requires the optional @huggingface/transformers package. Remote model
+ * downloads are disabled, so the model must already be in modelDir.
+ *
+ * @param model - Model name (relative to modelDir) or path
+ * @param modelDir - Directory holding local models
+ */
+export function createOnnxProvider(model: string, modelDir?: string): EmbeddingProvider {
+  let extractorPromise: Promise<FeatureExtractor> | null = null;
+
+  const getExtractor = (): Promise<FeatureExtractor> => {
+    if (!extractorPromise) {
+      const loading = (async () => {
+        // Imported by name at runtime so the package stays optional
+        const packageName = "@huggingface/transformers";
+        const transformers: TransformersModule = await import(packageName);
+        transformers.env.allowRemoteModels = false;
+        if (modelDir) {
+          transformers.env.localModelPath = modelDir;
+        }
+        return transformers.pipeline("feature-extraction", model);
+      })();
+      // A failed load (package or model missing) is retried on the next call
+      loading.catch(() => {
+        if (extractorPromise === loading) extractorPromise = null;
+      });
+      extractorPromise = loading;
+    }
+    return extractorPromise;
+  };
+
+  const embed = async (text: string): Promise<number[]> => {
+    const extractor = await getExtractor();
+    const output = await extractor(text, { pooling: "mean", normalize: true });
+    return Array.from(output.data);
+  };
+
+  return {
+    kind: "onnx",
+    model,
+    canEmbedText: true,
+    embedNode: node => embed(nodeText(node)),
+    embedText: embed
+  };
+}
+
+/**
+ * Create the configured embedding provider
+ *
+ * @returns The provider, or null if semantic search is not configured
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider | null {
+  const kind = config.provider || (config.sidecarPath ? "sidecar" : config.model ? "onnx" : undefined);
+
+  switch (kind) {
+    case undefined:
+      return null;
+    case "sidecar":
+      if (!config.sidecarPath) {
+        throw new Error("EMBEDDINGS_PATH is required for the sidecar embedding provider");
+      }
+      return createSidecarProvider(config.sidecarPath);
+    case "onnx":
+      if (!config.model) {
+        throw new Error("EMBEDDING_MODEL is required for the onnx embedding provider");
+      }
+      return createOnnxProvider(config.model, config.modelDir);
+    default:
+      throw new Error(`Unknown embedding provider: ${kind} (expected "sidecar" or "onnx")`);
+  }
+}
+
+// ============================================================================
+// Vector Cache
+// ============================================================================
+
+/**
+ * Cache of node vectors keyed by uid + modified date, for a single model
+ */
+export interface EmbeddingCache {
+  model: string;
+  vectors: Map<string, number[]>;
+  /** File to persist to (optional) */
+  path?: string;
+  /** Whether there are unsaved changes */
+  dirty: boolean;
+  /** Last save in progress (saves are serialized) */
+  saving: Promise<void>;
+}
+
+interface EmbeddingCacheFile {
+  model: string;
+  vectors: Record<string, number[]>;
+}
+
+/**
+ * Cache key for a node version
+ */
+function cacheKey(node: DiscourseNode): string {
+  return `${node.uid}@${node.modified}`;
+}
+
+/**
+ * Create an embedding cache, loading persisted vectors when available
+ *
+ * Persisted vectors from a different model are discarded.
+ *
+ * @param model - Model identifier of the active provider
+ * @param cachePath - Optional file to load from and save to
+ */
+export function createEmbeddingCache(model: string, cachePath?: string): EmbeddingCache {
+  const cache: EmbeddingCache = {
+    model,
+    vectors: new Map(),
+    path: cachePath,
+    dirty: false,
+    saving: Promise.resolve()
+  };
+
+  if (cachePath && fs.existsSync(cachePath)) {
+    try {
+      const file: EmbeddingCacheFile = JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+      if (file.model === model) {
+        cache.vectors = new Map(Object.entries(file.vectors));
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable embedding cache ${cachePath}:`, error);
+    }
+  }
+
+  return cache;
+}
+
+/**
+ * Write the cache to disk if it has a path and unsaved changes
+ *
+ * The file is replaced atomically, after any save still in progress. A
+ * failed save is logged and leaves the cache dirty, so the next one retries.
+ */
+export function saveEmbeddingCache(cache: EmbeddingCache): Promise<void> {
+  if (!cache.path || !cache.dirty) return cache.saving;
+
+  const cachePath = cache.path;
+  const file: EmbeddingCacheFile = {
+    model: cache.model,
+    vectors: Object.fromEntries(cache.vectors)
+  };
+  cache.dirty = false;
+  cache.saving = cache.saving
+    .then(() => writeFileAtomic(cachePath, JSON.stringify(file)))
+    .catch(error => {
+      cache.dirty = true;
+      console.error(`Failed to save embedding cache ${cachePath}:`, error);
+    });
+  return cache.saving;
+}
+
+/**
+ * Drop cached vectors of node versions that no store serves any more
+ * (edited or removed nodes), so the cache file does not grow with every edit
+ *
+ * @param cache - The vector cache
+ * @param stores - All served stores (the cache is shared between datasets)
+ * @returns Number of vectors dropped
+ */
+export function pruneEmbeddingCache(cache: EmbeddingCache, stores: DataStore[]): number {
+  const current = new Set<string>();
+  for (const store of stores) {
+    for (const node of store.allNodes) current.add(cacheKey(node));
+  }
+
+  let dropped = 0;
+  for (const key of cache.vectors.keys()) {
+    if (!current.has(key)) {
+      cache.vectors.delete(key);
+      dropped++;
+    }
+  }
+  if (dropped > 0) cache.dirty = true;
+  return dropped;
+}
+
+/**
+ * Get a node's vector from the cache, embedding and caching it on a miss
+ *
+ * @returns The vector, or null if the provider has none for this node
+ */
+export async function getNodeVector(
+  provider: EmbeddingProvider,
+  cache: EmbeddingCache,
+  node: DiscourseNode
+): Promise<number[] | null> {
+  const key = cacheKey(node);
+  const cached = cache.vectors.get(key);
+  if (cached) return cached;
+
+  const vector = await provider.embedNode(node);
+  if (vector) {
+    cache.vectors.set(key, vector);
+    // Sidecar vectors are already on disk, only model output is worth saving
+    cache.dirty = cache.dirty || provider.kind !== "sidecar";
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity between two vectors (0 if either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,168 @@
+/**
+ * Knowledge Gaps
+ *
+ * Uses relationDef domain/range declarations to work out which relations
+ * each node type normally takes part in (e.g. Evidence -Supports-> Claim
+ * means claims are expected to have supporting evidence), then reports
+ * nodes that lack them: questions no result informs, claims without
+ * evidence, and so on.
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { DiscourseNode, NodeType } from "./types.js";
+import { parseTimestamp } from "./dates.js";
+import { relationPolarity } from "./argumentTree.js";
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A relation a node type is expected to have, derived from relationDefs
+ * Example: Claim, incoming, from Evidence, via Supports/Opposes
+ */
+export interface RelationExpectation {
+  nodeType: NodeType;
+  /** incoming = the type is the range, outgoing = the type is the domain */
+  direction: "incoming" | "outgoing";
+  /** Node type at the other end */
+  counterpartType: NodeType;
+  /** Schema label of the other end (e.g., "Evidence") */
+  counterpartLabel: string;
+  /** Relation labels that satisfy the expectation */
+  relationTypes: string[];
+  /** relationDef UIDs that satisfy the expectation */
+  predicateUids: string[];
+}
+
+/**
+ * A node missing one or more expected relations
+ */
+export interface KnowledgeGap {
+  node: DiscourseNode;
+  /** Days since the node was created (null if its date is unparseable) */
+  ageDays: number | null;
+  missing: RelationExpectation[];
+}
+
+/**
+ * Gap search filters
+ */
+export interface GapFilter {
+  direction: "incoming" | "outgoing" | "both";
+  nodeType?: NodeType;
+  creator?: string;
+  /** Only nodes at least this many days old */
+  minAgeDays?: number;
+  /** Only nodes at most this many days old */
+  maxAgeDays?: number;
+}
+
+/**
+ * Derive expected relations per node type from relationDefs
+ *
+ * Definitions whose domain or range schema has no node type are skipped.
+ * Definitions sharing a node type, direction and counterpart are merged,
+ * so any one of them satisfies the expectation. Expectations made up only
+ * of opposition relations are dropped: nothing needs to be opposed.
+ */
+export function deriveExpectations(dataStore: DataStore): RelationExpectation[] {
+  const expectations = new Map<string, RelationExpectation>();
+
+  const add = (
+    nodeType: NodeType,
+    direction: "incoming" | "outgoing",
+    counterpartType: NodeType,
+    counterpartLabel: string,
+    label: string,
+    predicateUid: string
+  ) => {
+    const key = `${nodeType}\u0000${direction}\u0000${counterpartType}`;
+    let expectation = expectations.get(key);
+    if (!expectation) {
+      expectation = {
+        nodeType,
+        direction,
+        counterpartType,
+        counterpartLabel,
+        relationTypes: [],
+        predicateUids: []
+      };
+      expectations.set(key, expectation);
+    }
+    if (!expectation.relationTypes.includes(label)) expectation.relationTypes.push(label);
+    expectation.predicateUids.push(predicateUid);
+  };
+
+  for (const relDef of dataStore.relationDefs.values()) {
+    const domainType = dataStore.nodeSchemas.get(relDef.domainUid)?.nodeType;
+    const rangeType = dataStore.nodeSchemas.get(relDef.rangeUid)?.nodeType;
+    if (!domainType || !rangeType) continue;
+
+    add(rangeType, "incoming", domainType, relDef.domainLabel, relDef.label, relDef.uid);
+    add(domainType, "outgoing", rangeType, relDef.rangeLabel, relDef.label, relDef.uid);
+  }
+
+  return Array.from(expectations.values()).filter(expectation =>
+    expectation.relationTypes.some(label => relationPolarity(label) !== "oppose")
+  );
+}
+
+/**
+ * Whether a node has a relation satisfying an expectation
+ */
+function satisfies(dataStore: DataStore, uid: string, expectation: RelationExpectation): boolean {
+  const relations =
+    expectation.direction === "incoming"
+      ? dataStore.relationsByDestination.get(uid)
+      : dataStore.relationsBySource.get(uid);
+  return (relations || []).some(relation => expectation.predicateUids.includes(relation.predicateUid));
+}
+
+/**
+ * Find nodes missing relations their type normally participates in
+ *
+ * @param dataStore - The data store
+ * @param filter - Direction, node type, creator and age filters
+ * @param now - Reference time for ages (epoch ms)
+ * @returns Gaps, oldest nodes first
+ */
+export function findGaps(
+  dataStore: DataStore,
+  filter: GapFilter,
+  now: number = Date.now()
+): KnowledgeGap[] {
+  const expectations = deriveExpectations(dataStore).filter(
+    e => filter.direction === "both" || e.direction === filter.direction
+  );
+
+  const byType = new Map<NodeType, RelationExpectation[]>();
+  for (const expectation of expectations) {
+    const list = byType.get(expectation.nodeType) || [];
+    list.push(expectation);
+    byType.set(expectation.nodeType, list);
+  }
+
+  const gaps: KnowledgeGap[] = [];
+  for (const node of dataStore.allNodes) {
+    if (!node.nodeType) continue;
+    if (filter.nodeType && node.nodeType !== filter.nodeType) continue;
+    if (filter.creator && !node.creator.toLowerCase().includes(filter.creator.toLowerCase())) continue;
+
+    const expected = byType.get(node.nodeType);
+    if (!expected) continue;
+
+    const created = parseTimestamp(node.created);
+    const ageDays = created === null ? null : Math.floor((now - created) / DAY_MS);
+    if (filter.minAgeDays !== undefined && (ageDays === null || ageDays < filter.minAgeDays)) continue;
+    if (filter.maxAgeDays !== undefined && (ageDays === null || ageDays > filter.maxAgeDays)) continue;
+
+    const missing = expected.filter(expectation => !satisfies(dataStore, node.uid, expectation));
+    if (missing.length > 0) {
+      gaps.push({ node, ageDays, missing });
+    }
+  }
+
+  return gaps.sort((a, b) => (b.ageDays ?? -1) - (a.ageDays ?? -1));
+}
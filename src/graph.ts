@@ -0,0 +1,270 @@
+/**
+ * Graph Traversal
+ *
+ * Shared neighbor lookup over the combined graph of typed relations and
+ * text references, plus path finding between two nodes (BFS shortest path
+ * and Yen's k shortest simple paths).
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { NodeType } from "./types.js";
+
+/**
+ * Which way edges may be followed
+ * outgoing = source -> destination / referring -> referenced node, incoming = the reverse
+ */
+export type TraversalDirection = "outgoing" | "incoming" | "both";
+
+/**
+ * An edge as followed during traversal
+ */
+export interface TraversalEdge {
+  from: string;
+  to: string;
+  /** Typed relation instance, or a [[...]] text reference in the content */
+  kind: "relation" | "textReference";
+  /** Relation label (typed relations only) */
+  relationshipType?: string;
+  /** forward = followed as stored, backward = followed against its direction */
+  direction: "forward" | "backward";
+}
+
+/**
+ * Filters shared by traversal tools
+ */
+export interface TraversalFilter {
+  direction: TraversalDirection;
+  /** Only follow typed relations with this label (text references are skipped) */
+  relationshipType?: string;
+  /** Only pass through nodes of this type */
+  nodeType?: NodeType;
+}
+
+/**
+ * Neighbor lookup bound to a store and filter
+ * Returns at most one edge per neighbor, preferring typed relations.
+ */
+export type NeighborLookup = (uid: string) => TraversalEdge[];
+
+/**
+ * Create a memoized neighbor lookup
+ *
+ * @param dataStore - The data store
+ * @param filter - Direction and relationship type filters
+ * @returns Lookup from a node UID to its edges to existing nodes
+ */
+export function createNeighborLookup(dataStore: DataStore, filter: TraversalFilter): NeighborLookup {
+  const followOutgoing = filter.direction === "outgoing" || filter.direction === "both";
+  const followIncoming = filter.direction === "incoming" || filter.direction === "both";
+  const cache = new Map<string, TraversalEdge[]>();
+
+  return (uid: string) => {
+    const cached = cache.get(uid);
+    if (cached) return cached;
+
+    const edges = new Map<string, TraversalEdge>();
+    const add = (edge: TraversalEdge) => {
+      if (edge.to === uid || !dataStore.nodesByUid.has(edge.to)) return;
+      const existing = edges.get(edge.to);
+      if (!existing || (existing.kind === "textReference" && edge.kind === "relation")) {
+        edges.set(edge.to, edge);
+      }
+    };
+
+    if (followOutgoing) {
+      for (const relation of dataStore.relationsBySource.get(uid) || []) {
+        if (filter.relationshipType && relation.label !== filter.relationshipType) continue;
+        add({
+          from: uid,
+          to: relation.destinationUid,
+          kind: "relation",
+          relationshipType: relation.label,
+          direction: "forward"
+        });
+      }
+      if (!filter.relationshipType) {  // Text refs don't have relationship types
+        for (const linkedUid of dataStore.nodesByUid.get(uid)?.linkedNodeUids || []) {
+          add({
+            from: uid,
+            to: linkedUid,
+            kind: "textReference",
+            direction: "forward"
+          });
+        }
+      }
+    }
+
+    if (followIncoming) {
+      for (const relation of dataStore.relationsByDestination.get(uid) || []) {
+        if (filter.relationshipType && relation.label !== filter.relationshipType) continue;
+        add({
+          from: uid,
+          to: relation.sourceUid,
+          kind: "relation",
+          relationshipType: relation.label,
+          direction: "backward"
+        });
+      }
+      if (!filter.relationshipType) {
+        for (const node of dataStore.nodesReferencingUid.get(uid) || []) {
+          add({
+            from: uid,
+            to: node.uid,
+            kind: "textReference",
+            direction: "backward"
+          });
+        }
+      }
+    }
+
+    const result = Array.from(edges.values());
+    cache.set(uid, result);
+    return result;
+  };
+}
+
+/**
+ * A path as a node sequence plus the edge followed at each hop
+ */
+export interface GraphPath {
+  nodes: string[];
+  edges: TraversalEdge[];
+}
+
+/**
+ * Breadth-first shortest path avoiding blocked nodes and edges
+ *
+ * @returns The path, or null if the target is unreachable within maxLength hops
+ */
+function shortestPath(
+  dataStore: DataStore,
+  neighbors: NeighborLookup,
+  fromUid: string,
+  toUid: string,
+  maxLength: number,
+  nodeType: NodeType | undefined,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>
+): GraphPath | null {
+  if (fromUid === toUid) return { nodes: [fromUid], edges: [] };
+
+  // Edge used to reach each visited node
+  const reachedBy = new Map<string, TraversalEdge | null>([[fromUid, null]]);
+  let frontier = [fromUid];
+
+  for (let length = 1; length <= maxLength && frontier.length > 0; length++) {
+    const next: string[] = [];
+    for (const uid of frontier) {
+      for (const edge of neighbors(uid)) {
+        if (reachedBy.has(edge.to) || blockedNodes.has(edge.to)) continue;
+        if (blockedEdges.has(`${edge.from}\u0000${edge.to}`)) continue;
+        // Node type filter applies to intermediate nodes, not the target
+        if (edge.to !== toUid && nodeType && dataStore.nodesByUid.get(edge.to)?.nodeType !== nodeType) {
+          continue;
+        }
+
+        reachedBy.set(edge.to, edge);
+        if (edge.to === toUid) {
+          // Walk back to the start
+          const edges: TraversalEdge[] = [];
+          for (let e = reachedBy.get(toUid); e; e = reachedBy.get(e.from)) {
+            edges.unshift(e);
+          }
+          return { nodes: [fromUid, ...edges.map(e => e.to)], edges };
+        }
+        next.push(edge.to);
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Find up to k shortest simple paths between two nodes (Yen's algorithm)
+ *
+ * Paths are ordered by length; the first is a shortest path. Intermediate
+ * nodes must match filter.nodeType when it is set.
+ *
+ * @param dataStore - The data store
+ * @param fromUid - Start node UID
+ * @param toUid - End node UID
+ * @param filter - Direction, relationship type and node type filters
+ * @param maxLength - Maximum number of hops per path
+ * @param k - Maximum number of paths
+ * @returns Paths, shortest first (empty if the nodes are not connected)
+ */
+export function findPaths(
+  dataStore: DataStore,
+  fromUid: string,
+  toUid: string,
+  filter: TraversalFilter,
+  maxLength: number,
+  k: number
+): GraphPath[] {
+  const neighbors = createNeighborLookup(dataStore, filter);
+  const first = shortestPath(
+    dataStore,
+    neighbors,
+    fromUid,
+    toUid,
+    maxLength,
+    filter.nodeType,
+    new Set(),
+    new Set()
+  );
+  if (!first) return [];
+
+  const found: GraphPath[] = [first];
+  const candidates: GraphPath[] = [];
+  const seen = new Set<string>([first.nodes.join("\u0000")]);
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+
+    // Branch off the previous path at each node
+    for (let i = 0; i < previous.nodes.length - 1; i++) {
+      const spurUid = previous.nodes[i];
+      const rootNodes = previous.nodes.slice(0, i + 1);
+      const rootKey = rootNodes.join("\u0000");
+
+      // Block edges already used from this root, and the root itself
+      const blockedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.nodes.length > i + 1 && path.nodes.slice(0, i + 1).join("\u0000") === rootKey) {
+          blockedEdges.add(`${path.nodes[i]}\u0000${path.nodes[i + 1]}`);
+        }
+      }
+      const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spur = shortestPath(
+        dataStore,
+        neighbors,
+        spurUid,
+        toUid,
+        maxLength - i,
+        filter.nodeType,
+        blockedNodes,
+        blockedEdges
+      );
+      if (!spur) continue;
+
+      const path: GraphPath = {
+        nodes: [...rootNodes, ...spur.nodes.slice(1)],
+        edges: [...previous.edges.slice(0, i), ...spur.edges]
+      };
+      const key = path.nodes.join("\u0000");
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(path);
+      }
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.edges.length - b.edges.length);
+    found.push(candidates.shift()!);
+  }
+
+  return found;
+}
@@ -0,0 +1,338 @@
+/**
+ * Graph Metrics
+ *
+ * Centrality and connectivity over the combined graph of typed relations
+ * and text references: in/out degree, PageRank, betweenness and weakly
+ * connected components. Metrics are computed once per DataStore and cached
+ * until the store is replaced (e.g., on reload).
+ */
+
+import { DataStore } from "./dataLoader.js";
+
+/**
+ * PageRank damping factor and convergence settings
+ */
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_TOLERANCE = 1e-8;
+const PAGE_RANK_MAX_ITERATIONS = 100;
+
+/**
+ * Betweenness is exact up to this many nodes, and estimated from this many
+ * evenly spaced source nodes above it
+ */
+const EXACT_BETWEENNESS_MAX_NODES = 2000;
+const BETWEENNESS_SAMPLE_SIZE = 250;
+
+/**
+ * Metrics that nodes can be ranked by
+ */
+export type RankedMetric = "pageRank" | "betweenness" | "inDegree" | "outDegree";
+
+/**
+ * Metrics for one node
+ */
+export interface NodeMetrics {
+  uid: string;
+  /** Distinct nodes linking to this node */
+  inDegree: number;
+  /** Distinct nodes this node links to */
+  outDegree: number;
+  pageRank: number;
+  /** Normalized to 0-1 (fraction of shortest paths through the node) */
+  betweenness: number;
+  /** Index into GraphMetrics.components (0 = largest) */
+  componentId: number;
+  /** Position when all nodes are sorted by each metric (1 = highest) */
+  ranks: Record<RankedMetric, number>;
+}
+
+/**
+ * A weakly connected component
+ */
+export interface GraphComponent {
+  id: number;
+  size: number;
+  uids: string[];
+}
+
+/**
+ * Metrics for a whole store
+ */
+export interface GraphMetrics {
+  nodes: Map<string, NodeMetrics>;
+  /** Components, largest first */
+  components: GraphComponent[];
+  nodeCount: number;
+  /** Distinct directed links (typed relations and text references combined) */
+  edgeCount: number;
+  /** True when betweenness was estimated from a sample of source nodes */
+  betweennessSampled: boolean;
+  durationMs: number;
+}
+
+/**
+ * Cached metrics per store; entries go away with replaced stores
+ */
+const metricsCache = new WeakMap<DataStore, GraphMetrics>();
+
+/**
+ * Directed adjacency over node indexes
+ */
+export interface IndexedGraph {
+  uids: string[];
+  outgoing: number[][];
+  incoming: number[][];
+  /** Neighbors ignoring direction */
+  undirected: number[][];
+  edgeCount: number;
+}
+
+/**
+ * Build the combined graph of typed relations and text references
+ * Parallel links between the same two nodes count once; links to missing
+ * nodes and self-links are dropped.
+ */
+export function buildIndexedGraph(dataStore: DataStore): IndexedGraph {
+  const uids = dataStore.allNodes.map(node => node.uid);
+  const indexOf = new Map<string, number>();
+  uids.forEach((uid, i) => indexOf.set(uid, i));
+
+  const outgoingSets = uids.map(() => new Set<number>());
+  const addEdge = (fromUid: string, toUid: string) => {
+    const from = indexOf.get(fromUid);
+    const to = indexOf.get(toUid);
+    if (from === undefined || to === undefined || from === to) return;
+    outgoingSets[from].add(to);
+  };
+
+  for (const relation of dataStore.allRelations) {
+    addEdge(relation.sourceUid, relation.destinationUid);
+  }
+  for (const node of dataStore.allNodes) {
+    for (const linkedUid of node.linkedNodeUids) {
+      addEdge(node.uid, linkedUid);
+    }
+  }
+
+  const outgoing = outgoingSets.map(set => Array.from(set));
+  const incoming: number[][] = uids.map(() => []);
+  const undirectedSets = uids.map(() => new Set<number>());
+  let edgeCount = 0;
+  outgoing.forEach((targets, from) => {
+    for (const to of targets) {
+      incoming[to].push(from);
+      undirectedSets[from].add(to);
+      undirectedSets[to].add(from);
+      edgeCount++;
+    }
+  });
+
+  return {
+    uids,
+    outgoing,
+    incoming,
+    undirected: undirectedSets.map(set => Array.from(set)),
+    edgeCount
+  };
+}
+
+/**
+ * PageRank by power iteration; dangling nodes spread their rank evenly
+ */
+function computePageRank(graph: IndexedGraph): Float64Array {
+  const n = graph.uids.length;
+  let rank = new Float64Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < PAGE_RANK_MAX_ITERATIONS; iteration++) {
+    let danglingRank = 0;
+    for (let i = 0; i < n; i++) {
+      if (graph.outgoing[i].length === 0) danglingRank += rank[i];
+    }
+
+    const base = (1 - PAGE_RANK_DAMPING) / n + (PAGE_RANK_DAMPING * danglingRank) / n;
+    const next = new Float64Array(n).fill(base);
+    for (let i = 0; i < n; i++) {
+      const targets = graph.outgoing[i];
+      if (targets.length === 0) continue;
+      const share = (PAGE_RANK_DAMPING * rank[i]) / targets.length;
+      for (const target of targets) next[target] += share;
+    }
+
+    let delta = 0;
+    for (let i = 0; i < n; i++) delta += Math.abs(next[i] - rank[i]);
+    rank = next;
+    if (delta < PAGE_RANK_TOLERANCE) break;
+  }
+
+  return rank;
+}
+
+/**
+ * Betweenness centrality (Brandes) on the undirected graph, normalized to 0-1
+ *
+ * Large graphs use evenly spaced source nodes and scale the result up, which
+ * keeps the ordering of high-betweenness nodes while bounding the cost.
+ */
+function computeBetweenness(graph: IndexedGraph): { values: Float64Array; sampled: boolean } {
+  const n = graph.uids.length;
+  const centrality = new Float64Array(n);
+  const sampled = n > EXACT_BETWEENNESS_MAX_NODES;
+  const step = sampled ? n / BETWEENNESS_SAMPLE_SIZE : 1;
+  const sourceCount = sampled ? BETWEENNESS_SAMPLE_SIZE : n;
+
+  const sigma = new Float64Array(n);
+  const distance = new Int32Array(n);
+  const delta = new Float64Array(n);
+  const order = new Int32Array(n);
+
+  for (let s = 0; s < sourceCount; s++) {
+    const source = Math.floor(s * step);
+    sigma.fill(0);
+    distance.fill(-1);
+    delta.fill(0);
+    sigma[source] = 1;
+    distance[source] = 0;
+
+    // BFS, recording visit order
+    let head = 0;
+    let tail = 0;
+    order[tail++] = source;
+    while (head < tail) {
+      const v = order[head++];
+      for (const w of graph.undirected[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          order[tail++] = w;
+        }
+        if (distance[w] === distance[v] + 1) sigma[w] += sigma[v];
+      }
+    }
+
+    // Accumulate dependencies in reverse BFS order
+    for (let i = tail - 1; i > 0; i--) {
+      const w = order[i];
+      for (const v of graph.undirected[w]) {
+        if (distance[v] === distance[w] - 1) {
+          delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+        }
+      }
+      centrality[w] += delta[w];
+    }
+  }
+
+  // Each undirected path is counted from both ends; normalize by node pairs
+  const scale = (n / sourceCount) / 2;
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  for (let i = 0; i < n; i++) {
+    centrality[i] = pairs > 0 ? (centrality[i] * scale) / pairs : 0;
+  }
+  return { values: centrality, sampled };
+}
+
+/**
+ * Weakly connected components, largest first
+ */
+function computeComponents(
+  graph: IndexedGraph
+): { componentOf: Int32Array; components: GraphComponent[] } {
+  const n = graph.uids.length;
+  const componentOf = new Int32Array(n).fill(-1);
+  const groups: number[][] = [];
+
+  for (let start = 0; start < n; start++) {
+    if (componentOf[start] >= 0) continue;
+    const members = [start];
+    componentOf[start] = groups.length;
+    for (let i = 0; i < members.length; i++) {
+      for (const w of graph.undirected[members[i]]) {
+        if (componentOf[w] < 0) {
+          componentOf[w] = groups.length;
+          members.push(w);
+        }
+      }
+    }
+    groups.push(members);
+  }
+
+  // Renumber so the largest component is 0
+  const order = groups.map((_, i) => i).sort((a, b) => groups[b].length - groups[a].length);
+  const renumbered = new Int32Array(groups.length);
+  order.forEach((original, id) => (renumbered[original] = id));
+  for (let i = 0; i < n; i++) componentOf[i] = renumbered[componentOf[i]];
+
+  return {
+    componentOf,
+    components: order.map((original, id) => ({
+      id,
+      size: groups[original].length,
+      uids: groups[original].map(i => graph.uids[i])
+    }))
+  };
+}
+
+/**
+ * 1-based rank of each node by a metric (ties broken by UID)
+ */
+function rankBy(uids: string[], values: ArrayLike<number>): Int32Array {
+  const order = uids
+    .map((_, i) => i)
+    .sort((a, b) => values[b] - values[a] || uids[a].localeCompare(uids[b]));
+  const ranks = new Int32Array(uids.length);
+  order.forEach((i, position) => (ranks[i] = position + 1));
+  return ranks;
+}
+
+/**
+ * Get graph metrics for a store, computing them on first use
+ *
+ * @param dataStore - The data store
+ * @returns Cached metrics for this store
+ */
+export function getGraphMetrics(dataStore: DataStore): GraphMetrics {
+  const cached = metricsCache.get(dataStore);
+  if (cached) return cached;
+
+  const started = Date.now();
+  const graph = buildIndexedGraph(dataStore);
+  const inDegree = graph.incoming.map(sources => sources.length);
+  const outDegree = graph.outgoing.map(targets => targets.length);
+  const pageRank = computePageRank(graph);
+  const betweenness = computeBetweenness(graph);
+  const { componentOf, components } = computeComponents(graph);
+
+  const ranks: Record<RankedMetric, Int32Array> = {
+    pageRank: rankBy(graph.uids, pageRank),
+    betweenness: rankBy(graph.uids, betweenness.values),
+    inDegree: rankBy(graph.uids, inDegree),
+    outDegree: rankBy(graph.uids, outDegree)
+  };
+
+  const nodes = new Map<string, NodeMetrics>();
+  graph.uids.forEach((uid, i) => {
+    nodes.set(uid, {
+      uid,
+      inDegree: inDegree[i],
+      outDegree: outDegree[i],
+      pageRank: pageRank[i],
+      betweenness: betweenness.values[i],
+      componentId: componentOf[i],
+      ranks: {
+        pageRank: ranks.pageRank[i],
+        betweenness: ranks.betweenness[i],
+        inDegree: ranks.inDegree[i],
+        outDegree: ranks.outDegree[i]
+      }
+    });
+  });
+
+  const metrics: GraphMetrics = {
+    nodes,
+    components,
+    nodeCount: graph.uids.length,
+    edgeCount: graph.edgeCount,
+    betweennessSampled: betweenness.sampled,
+    durationMs: Date.now() - started
+  };
+  metricsCache.set(dataStore, metrics);
+  return metrics;
+}
@@ -0,0 +1,217 @@
+/**
+ * Export History
+ *
+ * Earlier exports of a dataset, kept as dated files in the dataset's
+ * history directory (e.g. akamatsulab_query-results_202512231309.json).
+ * Each file is a snapshot, dated by the 12-digit timestamp in its name
+ * (YYYYMMDDhhmm, read as UTC) or else by its modification time.
+ *
+ * Snapshots load through the index cache like the served export; the most
+ * recently used ones are also kept in memory.
+ *
+ * Together with the served data (dated like a snapshot) they are the
+ * dataset's versions, which read tools can query as of a date.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DataStore } from "./dataLoader.js";
+import { Dataset, loadExport } from "./dataset.js";
+import { parseDateSpan } from "./dates.js";
+
+/**
+ * An export in a history directory
+ */
+export interface Snapshot {
+  /** File name, e.g. "akamatsulab_query-results_202512231309.json" */
+  name: string;
+  path: string;
+  /** ISO timestamp of the export */
+  date: string;
+}
+
+/**
+ * A version of a dataset: an export in its history directory, or the served
+ * data (snapshot = null, named "current")
+ */
+export interface DatasetVersion {
+  name: string;
+  /** ISO timestamp of the export */
+  date: string;
+  snapshot: Snapshot | null;
+}
+
+/**
+ * A dataset's store as of a date, or why there is none
+ */
+export type StoreAsOf =
+  | { ok: true; store: DataStore; version: DatasetVersion }
+  | { ok: false; error: string; details?: Record<string, unknown> };
+
+/**
+ * Snapshot stores kept in memory (large exports take hundreds of MB each)
+ */
+const MAX_LOADED_SNAPSHOTS = 2;
+
+/**
+ * Loaded snapshot stores, least recently used first
+ */
+const loadedSnapshots = new Map<string, Promise<DataStore>>();
+
+/**
+ * Date of an export from its filename timestamp, else its modification time
+ * Example: "..._query-results_202512231309.json" -> "2025-12-23T13:09:00.000Z"
+ */
+export function snapshotDate(filePath: string): string {
+  const match = path.basename(filePath).match(/(?<!\d)(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(?!\d)/);
+  if (match) {
+    const [, year, month, day, hour, minute] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return fs.statSync(filePath).mtime.toISOString();
+}
+
+/**
+ * List the exports in a history directory, oldest first
+ *
+ * @param historyDir - Directory of *.json exports
+ */
+export function listSnapshots(historyDir: string): Snapshot[] {
+  return fs
+    .readdirSync(historyDir)
+    .filter(file => file.endsWith(".json"))
+    .map(file => {
+      const filePath = path.join(historyDir, file);
+      return { name: file, path: filePath, date: snapshotDate(filePath) };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether a snapshot is the dataset's served export
+ *
+ * The served export is "current", never a snapshot: loading it as one would
+ * parse it without its overlay and replace its index cache.
+ */
+export function isServedExport(snapshot: Snapshot, servedPath: string): boolean {
+  return path.resolve(snapshot.path) === path.resolve(servedPath);
+}
+
+/**
+ * Find a snapshot by file name (the ".json" suffix may be left out), other
+ * than the served export
+ *
+ * @param snapshots - Snapshots, oldest first
+ * @param name - File name
+ * @param servedPath - The dataset's own export, if it is in the directory
+ */
+export function findSnapshot(snapshots: Snapshot[], name: string, servedPath: string): Snapshot | undefined {
+  return snapshots.find(
+    snapshot =>
+      (snapshot.name === name || snapshot.name === `${name}.json`) && !isServedExport(snapshot, servedPath)
+  );
+}
+
+/**
+ * Newest snapshot dated before a time, other than the served export
+ *
+ * @param snapshots - Snapshots, oldest first
+ * @param date - ISO timestamp
+ * @param servedPath - The dataset's own export, if it is in the directory
+ */
+export function snapshotBefore(
+  snapshots: Snapshot[],
+  date: string,
+  servedPath: string
+): Snapshot | undefined {
+  return snapshots
+    .filter(snapshot => snapshot.date < date && !isServedExport(snapshot, servedPath))
+    .pop();
+}
+
+/**
+ * Load a snapshot of a dataset, parsed with the dataset's title grammar
+ *
+ * @param dataset - The dataset the snapshot belongs to
+ * @param snapshot - The export to load
+ */
+export function loadSnapshot(dataset: Dataset, snapshot: Snapshot): Promise<DataStore> {
+  const { mtimeMs, size } = fs.statSync(snapshot.path);
+  const key = `${dataset.info.name}\u0000${snapshot.path}\u0000${mtimeMs}\u0000${size}`;
+
+  let store = loadedSnapshots.get(key);
+  if (store) {
+    // Mark as most recently used
+    loadedSnapshots.delete(key);
+  } else {
+    store = loadExport(snapshot.path, dataset.titleGrammar, dataset.cache);
+    store.catch(() => loadedSnapshots.delete(key));
+  }
+  loadedSnapshots.set(key, store);
+
+  while (loadedSnapshots.size > MAX_LOADED_SNAPSHOTS) {
+    loadedSnapshots.delete(loadedSnapshots.keys().next().value!);
+  }
+  return store;
+}
+
+/**
+ * All versions of a dataset with a history directory, oldest first
+ * The served export is listed once, as "current", even if it is also in
+ * the history directory.
+ *
+ * @param dataset - The dataset
+ * @param historyDir - Its history directory
+ */
+export function datasetVersions(dataset: Dataset, historyDir: string): DatasetVersion[] {
+  const versions: DatasetVersion[] = listSnapshots(historyDir)
+    .filter(snapshot => !isServedExport(snapshot, dataset.info.dataPath))
+    .map(snapshot => ({ name: snapshot.name, date: snapshot.date, snapshot }));
+  versions.push({ name: "current", date: snapshotDate(dataset.info.dataPath), snapshot: null });
+  return versions.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Load the store of a dataset version
+ */
+export function loadVersion(dataset: Dataset, version: DatasetVersion): Promise<DataStore> {
+  return version.snapshot ? loadSnapshot(dataset, version.snapshot) : Promise.resolve(dataset.store);
+}
+
+/**
+ * The dataset as it was at a date: the latest version dated on or before it
+ *
+ * @param dataset - The dataset
+ * @param asOf - Date or timestamp; a date-only value covers the whole day (UTC)
+ */
+export async function storeAsOf(dataset: Dataset, asOf: string): Promise<StoreAsOf> {
+  const { historyDir, name } = dataset.info;
+  if (!historyDir) {
+    return {
+      ok: false,
+      error: `Dataset '${name}' has no history directory, so it cannot be queried as of a date. Configure one (HISTORY_DIR, or "history" in DATASETS_CONFIG).`
+    };
+  }
+  const span = parseDateSpan(asOf);
+  if (!span) return { ok: false, error: `Invalid asOf date: ${asOf}` };
+
+  const versions = datasetVersions(dataset, historyDir);
+  const version = versions.filter(candidate => Date.parse(candidate.date) < span.end).pop();
+  if (!version) {
+    return {
+      ok: false,
+      error: `Dataset '${name}' has no export dated on or before ${asOf}`,
+      details: { earliestExport: { name: versions[0].name, date: versions[0].date } }
+    };
+  }
+
+  try {
+    return { ok: true, store: await loadVersion(dataset, version), version };
+  } catch (error) {
+    return {
+      ok: false,
+      error: `Failed to load ${version.name}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
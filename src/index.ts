@@ -5,8 +5,8 @@
  * An MCP server that exposes the Akamatsu lab's discourse graph on cellular
  * biophysics (endocytosis, membrane tension, actin dynamics) to Claude.
  *
- * The server provides 9 tools:
- * - search_nodes: Full-text search with filters and sorting
+ * The server provides these tools:
+ * - search_nodes: Relevance-ranked full-text search with filters and sorting
  * - get_node: Get complete node details
  * - get_linked_nodes: Graph traversal with typed relationships
  * - get_schema: Return ontology/node types
@@ -15,6 +15,38 @@
  * - get_relationships: Query typed relationships (Supports, Informs, Opposes)
  * - get_relation_types: List available relationship type definitions
  * - get_node_neighborhood: K-hop neighborhood traversal with BFS
+ * - semantic_search: Embedding similarity search (when EMBEDDING_PROVIDER is configured)
+ * - reload_data: Reload the data file without restarting (also automatic on change)
+ * - get_dataset_info: Load time, file hash and reload status
+ * - list_datasets: Datasets served by this process
+ * - find_paths: Shortest and top-k paths between two nodes
+ * - get_argument_tree: Evidence tree behind a claim or hypothesis
+ * - find_conflicts: Contradictions and circular support
+ * - find_gaps: Nodes missing the relations their type expects
+ * - get_graph_metrics: Degree, PageRank, betweenness and components
+ * - get_clusters: Research threads by community detection
+ * - get_backlinks: Nodes that mention a node, with context
+ * - validate_graph: Dangling references and schema violations
+ * - find_nonconforming_relations: Relations violating domain/range
+ * - create_node: Add a discourse node (writable datasets)
+ * - create_relation: Add a typed relation (writable datasets)
+ * - propose_node / propose_relation / propose_edit: Changes for review (datasets with drafts)
+ * - list_drafts / diff_drafts: Review proposed changes
+ * - review_drafts: Accept or reject proposed changes
+ * - export_drafts: Accepted changes as a JSON-LD fragment
+ * - diff_snapshots: Changes between two exports (when a history directory is configured)
+ * - get_node_history: A node's versions across exports (likewise)
+ * - export_subgraph: Part of the graph as GraphML, GEXF, Cytoscape.js JSON or DOT
+ *
+ * Several exports can be served at once (see registry.ts); every tool takes
+ * an optional `dataset` argument, and read tools an `includeDrafts` switch
+ * to see proposed changes (see drafts.ts) and an `asOf` date to query an
+ * earlier export (see history.ts).
+ *
+ * Start with --check to validate the datasets and exit instead of serving,
+ * run `diff-snapshots <before.json> <after.json> [--json]` to compare two
+ * exports, or `export-subgraph --format <format> ...` to write part of a
+ * dataset for visualization tools (see cli.ts).
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -23,7 +55,25 @@ import * as path from "path";
 import * as fs from "fs";
 import { fileURLToPath } from "url";
 
-import { loadData, DataStore } from "./dataLoader.js";
+import { draftView, watchDataset, Dataset, IndexCacheOptions, ReloadResult } from "./dataset.js";
+import { DataStore } from "./dataLoader.js";
+import { DatasetVersion, storeAsOf } from "./history.js";
+import {
+  datasetNameFromPath,
+  DatasetRegistry,
+  openRegistry,
+  readDatasetConfigs,
+  resolveDataset
+} from "./registry.js";
+import { loadSynonyms, SynonymTable } from "./search.js";
+import {
+  createEmbeddingCache,
+  createEmbeddingProvider,
+  EmbeddingCache,
+  EmbeddingProvider,
+  pruneEmbeddingCache,
+  saveEmbeddingCache
+} from "./embeddings.js";
 import {
   SearchNodesSchema,
   GetNodeSchema,
@@ -34,6 +84,30 @@ import {
   GetRelationshipsSchema,
   GetRelationTypesSchema,
   GetNodeNeighborhoodSchema,
+  SemanticSearchSchema,
+  ReloadDataSchema,
+  GetDatasetInfoSchema,
+  FindPathsSchema,
+  GetArgumentTreeSchema,
+  FindConflictsSchema,
+  FindGapsSchema,
+  GetGraphMetricsSchema,
+  GetClustersSchema,
+  GetBacklinksSchema,
+  ValidateGraphSchema,
+  FindNonconformingRelationsSchema,
+  CreateNodeSchema,
+  CreateRelationSchema,
+  ProposeNodeSchema,
+  ProposeRelationSchema,
+  ProposeEditSchema,
+  ListDraftsSchema,
+  DiffDraftsSchema,
+  ReviewDraftsSchema,
+  ExportDraftsSchema,
+  DiffSnapshotsSchema,
+  GetNodeHistorySchema,
+  ExportSubgraphSchema,
   handleSearchNodes,
   handleGetNode,
   handleGetLinkedNodes,
@@ -43,47 +117,132 @@ import {
   handleGetRelationships,
   handleGetRelationTypes,
   handleGetNodeNeighborhood,
+  handleSemanticSearch,
+  handleReloadData,
+  handleGetDatasetInfo,
+  handleListDatasets,
+  handleFindPaths,
+  handleGetArgumentTree,
+  handleFindConflicts,
+  handleFindGaps,
+  handleGetGraphMetrics,
+  handleGetClusters,
+  handleGetBacklinks,
+  handleValidateGraph,
+  handleFindNonconformingRelations,
+  handleCreateNode,
+  handleCreateRelation,
+  handleProposeNode,
+  handleProposeRelation,
+  handleProposeEdit,
+  handleListDrafts,
+  handleDiffDrafts,
+  handleReviewDrafts,
+  handleExportDrafts,
+  handleDiffSnapshots,
+  handleGetNodeHistory,
+  handleExportSubgraph,
+  errorResult,
   TOOL_DEFINITIONS
 } from "./tools.js";
+import { runCheck, runDiffSnapshots, runExportSubgraph } from "./cli.js";
+import { DEFAULT_TITLE_GRAMMAR, readTitleGrammarFile } from "./titleGrammar.js";
 
 // Get directory of this file for relative data path
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Data path - can be overridden with DATA_PATH env var
-const DATA_PATH =
-  process.env.DATA_PATH ||
-  path.join(__dirname, "..", "plugin-testing-akamatsulab2_query-results_202512231309.json");
+// Default data path when none of DATASETS_CONFIG, DATA_DIR or DATA_PATH is set
+const DEFAULT_DATA_PATH = path.join(
+  __dirname,
+  "..",
+  "plugin-testing-akamatsulab2_query-results_202512231309.json"
+);
+
+// Datasets to serve (see registry.ts for the configuration options)
+let datasetConfig: ReturnType<typeof readDatasetConfigs>;
+try {
+  datasetConfig = readDatasetConfigs(process.env, DEFAULT_DATA_PATH);
+} catch (error) {
+  console.error("Failed to read dataset configuration:", error);
+  process.exit(1);
+}
 
 /**
- * Derive server name from environment variable or data file path.
- * Priority: 1) SERVER_NAME env var, 2) Dataset prefix from filename
+ * Derive server name from environment variable or the configured datasets.
+ * Priority: 1) SERVER_NAME env var, 2) Dataset name when serving a single
+ * export, 3) Generic name for multiple datasets
  */
-function deriveServerName(dataPath: string): string {
+function deriveServerName(): string {
   // Priority 1: Explicit SERVER_NAME env var
   if (process.env.SERVER_NAME && process.env.SERVER_NAME.trim()) {
     return process.env.SERVER_NAME.trim();
   }
 
-  // Priority 2: Extract from filename
-  const filename = path.basename(dataPath, '.json');
-
-  // Extract prefix before "_query-results_" or timestamp patterns
-  const match = filename.match(/^([^_]+(?:_[^_]+)*?)(?:_query-results_|_\d{12,})?/);
-
-  if (match && match[1]) {
-    return `${match[1]}-server`;
+  // Priority 2: Single dataset, named after its export file
+  if (datasetConfig.configs.length === 1) {
+    return `${datasetNameFromPath(datasetConfig.configs[0].path)}-server`;
   }
 
-  // Fallback: use full filename (minus extension)
-  return `${filename}-server`;
+  return "discourse-graph-server";
 }
 
-// Initialize data store (will be populated on startup)
-let dataStore: DataStore;
+// Optional synonym file for search term expansion
+const SYNONYMS_PATH = process.env.SYNONYMS_PATH;
+
+// Set WATCH_DATA=false to disable reloading when the data file changes
+const WATCH_DATA = process.env.WATCH_DATA !== "false";
+
+// Built indexes are cached in INDEX_CACHE_DIR (set INDEX_CACHE=false to disable);
+// start with --rebuild-index to ignore existing caches
+const INDEX_CACHE: IndexCacheOptions | null =
+  process.env.INDEX_CACHE === "false"
+    ? null
+    : {
+        dir: process.env.INDEX_CACHE_DIR || path.join(__dirname, "..", ".cache"),
+        rebuild: process.argv.includes("--rebuild-index")
+      };
+
+// --check validates the datasets and exits instead of starting the server
+const CHECK_MODE = process.argv.includes("--check");
+
+// diff-snapshots compares two exports and exits instead of starting the server
+const DIFF_MODE = process.argv[2] === "diff-snapshots";
+
+// export-subgraph writes part of a dataset and exits instead of starting the server
+const EXPORT_MODE = process.argv[2] === "export-subgraph";
+
+// Served datasets (loaded on startup; each store is swapped on reload)
+let registry: DatasetRegistry;
+
+// Search synonyms (loaded on startup if SYNONYMS_PATH is set)
+let synonyms: SynonymTable = new Map();
+
+// Embedding provider for semantic search (null if not configured)
+let embeddingProvider: EmbeddingProvider | null = null;
+let embeddingCache: EmbeddingCache;
+
+try {
+  embeddingProvider = createEmbeddingProvider({
+    provider: process.env.EMBEDDING_PROVIDER,
+    sidecarPath: process.env.EMBEDDINGS_PATH,
+    model: process.env.EMBEDDING_MODEL,
+    modelDir: process.env.EMBEDDING_MODEL_DIR,
+    cachePath: process.env.EMBEDDING_CACHE_PATH
+  });
+  if (embeddingProvider) {
+    embeddingCache = createEmbeddingCache(
+      embeddingProvider.model,
+      process.env.EMBEDDING_CACHE_PATH
+    );
+  }
+} catch (error) {
+  console.error("Failed to configure embedding provider:", error);
+  process.exit(1);
+}
 
 // Derive server name from environment or data path
-const SERVER_NAME = deriveServerName(DATA_PATH);
+const SERVER_NAME = deriveServerName();
 
 // Create MCP server
 const server = new McpServer({
@@ -91,6 +250,127 @@ const server = new McpServer({
   version: "0.2.0"
 });
 
+/**
+ * Tool result as returned by the handlers
+ */
+type ToolResult = {
+  content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }>;
+  isError?: boolean;
+};
+
+/**
+ * Read tool arguments selecting the dataset and the version of it to read
+ */
+interface ReadArgs {
+  dataset?: string;
+  includeDrafts?: boolean;
+  asOf?: string;
+}
+
+/**
+ * Store a read tool should see, or why there is none
+ * version is the export an asOf query resolved to (null without asOf).
+ */
+type StoreLookup =
+  | { ok: true; store: DataStore; version: DatasetVersion | null }
+  | { ok: false; error: string; details?: Record<string, unknown> };
+
+/**
+ * Run a tool handler against the requested (or default) dataset
+ * Unknown dataset names produce an error result listing the valid ones.
+ */
+async function withDataset<T>(
+  name: string | undefined,
+  handler: (dataset: Dataset) => T | Promise<T>
+) {
+  const lookup = resolveDataset(registry, name);
+  if (!lookup.ok) {
+    return errorResult({ error: lookup.error });
+  }
+  return handler(lookup.dataset);
+}
+
+/**
+ * Store a read tool should see: the served store, its draft view when the
+ * tool was called with includeDrafts, or the latest export on or before
+ * asOf (see history.ts). Drafts only apply to the served data.
+ */
+async function readStore(dataset: Dataset, args: ReadArgs): Promise<StoreLookup> {
+  if (!args.asOf) {
+    return { ok: true, store: args.includeDrafts ? draftView(dataset) : dataset.store, version: null };
+  }
+
+  const found = await storeAsOf(dataset, args.asOf);
+  if (!found.ok || !args.includeDrafts) return found;
+  if (found.version.snapshot) {
+    return {
+      ok: false,
+      error: `includeDrafts only applies to the current data, but asOf ${args.asOf} resolves to the export ${found.version.name}`
+    };
+  }
+  return { ...found, store: draftView(dataset) };
+}
+
+/**
+ * Add the export an asOf query read to a successful result
+ */
+function withServedFrom(result: ToolResult, asOf: string, servedFrom: unknown): ToolResult {
+  if (result.isError) return result;
+  const note = { asOf, servedFrom };
+  return { ...result, content: [...result.content, { type: "text", text: JSON.stringify(note, null, 2) }] };
+}
+
+/**
+ * Run a read tool handler against the store selected by the arguments
+ * (dataset, includeDrafts, asOf)
+ */
+async function withReadStore(
+  args: ReadArgs,
+  handler: (store: DataStore, dataset: Dataset) => ToolResult | Promise<ToolResult>
+) {
+  return withDataset(args.dataset, async dataset => {
+    const lookup = await readStore(dataset, args);
+    if (!lookup.ok) return errorResult({ error: lookup.error, ...lookup.details });
+    const result = await handler(lookup.store, dataset);
+    return lookup.version
+      ? withServedFrom(result, args.asOf!, { name: lookup.version.name, date: lookup.version.date })
+      : result;
+  });
+}
+
+/**
+ * Run a read tool handler against the selected store of every dataset,
+ * keyed by name
+ *
+ * Datasets with no such store (e.g. no history directory for asOf) are
+ * skipped and listed in servedFrom with the reason; only when every dataset
+ * is skipped is the result an error.
+ */
+async function withAllStores(
+  args: ReadArgs,
+  handler: (stores: Map<string, DataStore>) => ToolResult | Promise<ToolResult>
+) {
+  const stores = new Map<string, DataStore>();
+  const servedFrom: Record<string, { name: string; date: string } | { skipped: string }> = {};
+  const skipped: Record<string, string> = {};
+  for (const [name, dataset] of registry.datasets) {
+    const lookup = await readStore(dataset, args);
+    if (!lookup.ok) {
+      servedFrom[name] = { skipped: lookup.error };
+      skipped[name] = lookup.error;
+      continue;
+    }
+    stores.set(name, lookup.store);
+    if (lookup.version) servedFrom[name] = { name: lookup.version.name, date: lookup.version.date };
+  }
+  if (stores.size === 0) {
+    return errorResult({ error: "No dataset can answer this query", skipped });
+  }
+
+  const result = await handler(stores);
+  return args.asOf ? withServedFrom(result, args.asOf, servedFrom) : result;
+}
+
 // ============================================================================
 // Register Tools
 // ============================================================================
@@ -100,7 +380,14 @@ server.tool(
   TOOL_DEFINITIONS.search_nodes.name,
   TOOL_DEFINITIONS.search_nodes.description,
   TOOL_DEFINITIONS.search_nodes.schema.shape,
-  async (args) => handleSearchNodes(dataStore, SearchNodesSchema.parse(args))
+  async (args) => {
+    const parsed = SearchNodesSchema.parse(args);
+    // No dataset given: search them all when more than one is served
+    if (parsed.dataset === undefined && registry.datasets.size > 1) {
+      return withAllStores(parsed, stores => handleSearchNodes(stores, parsed, synonyms));
+    }
+    return withReadStore(parsed, store => handleSearchNodes(store, parsed, synonyms));
+  }
 );
 
 // Tool: get_node
@@ -108,7 +395,10 @@ server.tool(
   TOOL_DEFINITIONS.get_node.name,
   TOOL_DEFINITIONS.get_node.description,
   TOOL_DEFINITIONS.get_node.schema.shape,
-  async (args) => await handleGetNode(dataStore, GetNodeSchema.parse(args))
+  async (args) => {
+    const parsed = GetNodeSchema.parse(args);
+    return withReadStore(parsed, store => handleGetNode(store, parsed));
+  }
 );
 
 // Tool: get_linked_nodes
@@ -116,7 +406,10 @@ server.tool(
   TOOL_DEFINITIONS.get_linked_nodes.name,
   TOOL_DEFINITIONS.get_linked_nodes.description,
   TOOL_DEFINITIONS.get_linked_nodes.schema.shape,
-  async (args) => handleGetLinkedNodes(dataStore, GetLinkedNodesSchema.parse(args))
+  async (args) => {
+    const parsed = GetLinkedNodesSchema.parse(args);
+    return withReadStore(parsed, store => handleGetLinkedNodes(store, parsed));
+  }
 );
 
 // Tool: get_schema
@@ -124,7 +417,10 @@ server.tool(
   TOOL_DEFINITIONS.get_schema.name,
   TOOL_DEFINITIONS.get_schema.description,
   TOOL_DEFINITIONS.get_schema.schema.shape,
-  async () => handleGetSchema(dataStore)
+  async (args) => {
+    const parsed = GetSchemaSchema.parse(args);
+    return withReadStore(parsed, store => handleGetSchema(store));
+  }
 );
 
 // Tool: get_researcher_contributions
@@ -132,11 +428,10 @@ server.tool(
   TOOL_DEFINITIONS.get_researcher_contributions.name,
   TOOL_DEFINITIONS.get_researcher_contributions.description,
   TOOL_DEFINITIONS.get_researcher_contributions.schema.shape,
-  async (args) =>
-    handleGetResearcherContributions(
-      dataStore,
-      GetResearcherContributionsSchema.parse(args)
-    )
+  async (args) => {
+    const parsed = GetResearcherContributionsSchema.parse(args);
+    return withReadStore(parsed, store => handleGetResearcherContributions(store, parsed));
+  }
 );
 
 // Tool: get_node_images
@@ -144,7 +439,10 @@ server.tool(
   TOOL_DEFINITIONS.get_node_images.name,
   TOOL_DEFINITIONS.get_node_images.description,
   TOOL_DEFINITIONS.get_node_images.schema.shape,
-  async (args) => await handleGetNodeImages(dataStore, GetNodeImagesSchema.parse(args))
+  async (args) => {
+    const parsed = GetNodeImagesSchema.parse(args);
+    return withReadStore(parsed, store => handleGetNodeImages(store, parsed));
+  }
 );
 
 // Tool: get_relationships
@@ -152,7 +450,10 @@ server.tool(
   TOOL_DEFINITIONS.get_relationships.name,
   TOOL_DEFINITIONS.get_relationships.description,
   TOOL_DEFINITIONS.get_relationships.schema.shape,
-  async (args) => handleGetRelationships(dataStore, GetRelationshipsSchema.parse(args))
+  async (args) => {
+    const parsed = GetRelationshipsSchema.parse(args);
+    return withReadStore(parsed, store => handleGetRelationships(store, parsed));
+  }
 );
 
 // Tool: get_relation_types
@@ -160,7 +461,10 @@ server.tool(
   TOOL_DEFINITIONS.get_relation_types.name,
   TOOL_DEFINITIONS.get_relation_types.description,
   TOOL_DEFINITIONS.get_relation_types.schema.shape,
-  async () => handleGetRelationTypes(dataStore)
+  async (args) => {
+    const parsed = GetRelationTypesSchema.parse(args);
+    return withReadStore(parsed, store => handleGetRelationTypes(store));
+  }
 );
 
 // Tool: get_node_neighborhood
@@ -168,37 +472,454 @@ server.tool(
   TOOL_DEFINITIONS.get_node_neighborhood.name,
   TOOL_DEFINITIONS.get_node_neighborhood.description,
   TOOL_DEFINITIONS.get_node_neighborhood.schema.shape,
-  async (args) => handleGetNodeNeighborhood(dataStore, GetNodeNeighborhoodSchema.parse(args))
+  async (args) => {
+    const parsed = GetNodeNeighborhoodSchema.parse(args);
+    return withReadStore(parsed, store => handleGetNodeNeighborhood(store, parsed));
+  }
+);
+
+// Tool: semantic_search (only when an embedding provider is configured)
+if (embeddingProvider) {
+  const provider = embeddingProvider;
+  server.tool(
+    TOOL_DEFINITIONS.semantic_search.name,
+    TOOL_DEFINITIONS.semantic_search.description,
+    TOOL_DEFINITIONS.semantic_search.schema.shape,
+    async (args) => {
+      const parsed = SemanticSearchSchema.parse(args);
+      return withReadStore(parsed, store =>
+        handleSemanticSearch(store, parsed, provider, embeddingCache, synonyms)
+      );
+    }
+  );
+}
+
+// Tool: reload_data
+server.tool(
+  TOOL_DEFINITIONS.reload_data.name,
+  TOOL_DEFINITIONS.reload_data.description,
+  TOOL_DEFINITIONS.reload_data.schema.shape,
+  async (args) => {
+    const parsed = ReloadDataSchema.parse(args);
+    return withDataset(parsed.dataset, async dataset => {
+      const result = await handleReloadData(dataset, parsed);
+      pruneEmbeddings();
+      return result;
+    });
+  }
+);
+
+// Tool: get_dataset_info
+server.tool(
+  TOOL_DEFINITIONS.get_dataset_info.name,
+  TOOL_DEFINITIONS.get_dataset_info.description,
+  TOOL_DEFINITIONS.get_dataset_info.schema.shape,
+  async (args) => {
+    const parsed = GetDatasetInfoSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleGetDatasetInfo(dataset));
+  }
+);
+
+// Tool: list_datasets
+server.tool(
+  TOOL_DEFINITIONS.list_datasets.name,
+  TOOL_DEFINITIONS.list_datasets.description,
+  TOOL_DEFINITIONS.list_datasets.schema.shape,
+  async () => handleListDatasets(registry)
+);
+
+// Tool: find_paths
+server.tool(
+  TOOL_DEFINITIONS.find_paths.name,
+  TOOL_DEFINITIONS.find_paths.description,
+  TOOL_DEFINITIONS.find_paths.schema.shape,
+  async (args) => {
+    const parsed = FindPathsSchema.parse(args);
+    return withReadStore(parsed, store => handleFindPaths(store, parsed));
+  }
+);
+
+// Tool: get_argument_tree
+server.tool(
+  TOOL_DEFINITIONS.get_argument_tree.name,
+  TOOL_DEFINITIONS.get_argument_tree.description,
+  TOOL_DEFINITIONS.get_argument_tree.schema.shape,
+  async (args) => {
+    const parsed = GetArgumentTreeSchema.parse(args);
+    return withReadStore(parsed, store => handleGetArgumentTree(store, parsed));
+  }
+);
+
+// Tool: find_conflicts
+server.tool(
+  TOOL_DEFINITIONS.find_conflicts.name,
+  TOOL_DEFINITIONS.find_conflicts.description,
+  TOOL_DEFINITIONS.find_conflicts.schema.shape,
+  async (args) => {
+    const parsed = FindConflictsSchema.parse(args);
+    return withReadStore(parsed, store => handleFindConflicts(store, parsed));
+  }
+);
+
+// Tool: find_gaps
+server.tool(
+  TOOL_DEFINITIONS.find_gaps.name,
+  TOOL_DEFINITIONS.find_gaps.description,
+  TOOL_DEFINITIONS.find_gaps.schema.shape,
+  async (args) => {
+    const parsed = FindGapsSchema.parse(args);
+    return withReadStore(parsed, store => handleFindGaps(store, parsed));
+  }
+);
+
+// Tool: get_graph_metrics
+server.tool(
+  TOOL_DEFINITIONS.get_graph_metrics.name,
+  TOOL_DEFINITIONS.get_graph_metrics.description,
+  TOOL_DEFINITIONS.get_graph_metrics.schema.shape,
+  async (args) => {
+    const parsed = GetGraphMetricsSchema.parse(args);
+    return withReadStore(parsed, store => handleGetGraphMetrics(store, parsed));
+  }
+);
+
+// Tool: get_clusters
+server.tool(
+  TOOL_DEFINITIONS.get_clusters.name,
+  TOOL_DEFINITIONS.get_clusters.description,
+  TOOL_DEFINITIONS.get_clusters.schema.shape,
+  async (args) => {
+    const parsed = GetClustersSchema.parse(args);
+    return withReadStore(parsed, store => handleGetClusters(store, parsed));
+  }
+);
+
+// Tool: get_backlinks
+server.tool(
+  TOOL_DEFINITIONS.get_backlinks.name,
+  TOOL_DEFINITIONS.get_backlinks.description,
+  TOOL_DEFINITIONS.get_backlinks.schema.shape,
+  async (args) => {
+    const parsed = GetBacklinksSchema.parse(args);
+    return withReadStore(parsed, store => handleGetBacklinks(store, parsed));
+  }
+);
+
+// Tool: validate_graph
+server.tool(
+  TOOL_DEFINITIONS.validate_graph.name,
+  TOOL_DEFINITIONS.validate_graph.description,
+  TOOL_DEFINITIONS.validate_graph.schema.shape,
+  async (args) => {
+    const parsed = ValidateGraphSchema.parse(args);
+    return withReadStore(parsed, store => handleValidateGraph(store, parsed));
+  }
+);
+
+// Tool: find_nonconforming_relations
+server.tool(
+  TOOL_DEFINITIONS.find_nonconforming_relations.name,
+  TOOL_DEFINITIONS.find_nonconforming_relations.description,
+  TOOL_DEFINITIONS.find_nonconforming_relations.schema.shape,
+  async (args) => {
+    const parsed = FindNonconformingRelationsSchema.parse(args);
+    return withReadStore(parsed, store => handleFindNonconformingRelations(store, parsed));
+  }
+);
+
+// Tool: create_node
+server.tool(
+  TOOL_DEFINITIONS.create_node.name,
+  TOOL_DEFINITIONS.create_node.description,
+  TOOL_DEFINITIONS.create_node.schema.shape,
+  async (args) => {
+    const parsed = CreateNodeSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleCreateNode(dataset, parsed));
+  }
+);
+
+// Tool: create_relation
+server.tool(
+  TOOL_DEFINITIONS.create_relation.name,
+  TOOL_DEFINITIONS.create_relation.description,
+  TOOL_DEFINITIONS.create_relation.schema.shape,
+  async (args) => {
+    const parsed = CreateRelationSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleCreateRelation(dataset, parsed));
+  }
+);
+
+// Tool: propose_node
+server.tool(
+  TOOL_DEFINITIONS.propose_node.name,
+  TOOL_DEFINITIONS.propose_node.description,
+  TOOL_DEFINITIONS.propose_node.schema.shape,
+  async (args) => {
+    const parsed = ProposeNodeSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleProposeNode(dataset, parsed));
+  }
+);
+
+// Tool: propose_relation
+server.tool(
+  TOOL_DEFINITIONS.propose_relation.name,
+  TOOL_DEFINITIONS.propose_relation.description,
+  TOOL_DEFINITIONS.propose_relation.schema.shape,
+  async (args) => {
+    const parsed = ProposeRelationSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleProposeRelation(dataset, parsed));
+  }
+);
+
+// Tool: propose_edit
+server.tool(
+  TOOL_DEFINITIONS.propose_edit.name,
+  TOOL_DEFINITIONS.propose_edit.description,
+  TOOL_DEFINITIONS.propose_edit.schema.shape,
+  async (args) => {
+    const parsed = ProposeEditSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleProposeEdit(dataset, parsed));
+  }
+);
+
+// Tool: list_drafts
+server.tool(
+  TOOL_DEFINITIONS.list_drafts.name,
+  TOOL_DEFINITIONS.list_drafts.description,
+  TOOL_DEFINITIONS.list_drafts.schema.shape,
+  async (args) => {
+    const parsed = ListDraftsSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleListDrafts(dataset, parsed));
+  }
+);
+
+// Tool: diff_drafts
+server.tool(
+  TOOL_DEFINITIONS.diff_drafts.name,
+  TOOL_DEFINITIONS.diff_drafts.description,
+  TOOL_DEFINITIONS.diff_drafts.schema.shape,
+  async (args) => {
+    const parsed = DiffDraftsSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleDiffDrafts(dataset, parsed));
+  }
+);
+
+// Tool: review_drafts
+server.tool(
+  TOOL_DEFINITIONS.review_drafts.name,
+  TOOL_DEFINITIONS.review_drafts.description,
+  TOOL_DEFINITIONS.review_drafts.schema.shape,
+  async (args) => {
+    const parsed = ReviewDraftsSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleReviewDrafts(dataset, parsed));
+  }
+);
+
+// Tool: export_drafts
+server.tool(
+  TOOL_DEFINITIONS.export_drafts.name,
+  TOOL_DEFINITIONS.export_drafts.description,
+  TOOL_DEFINITIONS.export_drafts.schema.shape,
+  async (args) => {
+    const parsed = ExportDraftsSchema.parse(args);
+    return withDataset(parsed.dataset, dataset => handleExportDrafts(dataset));
+  }
+);
+
+// Tools: diff_snapshots, get_node_history (only when a dataset has a history directory)
+if (datasetConfig.configs.some(config => config.history)) {
+  server.tool(
+    TOOL_DEFINITIONS.diff_snapshots.name,
+    TOOL_DEFINITIONS.diff_snapshots.description,
+    TOOL_DEFINITIONS.diff_snapshots.schema.shape,
+    async (args) => {
+      const parsed = DiffSnapshotsSchema.parse(args);
+      return withDataset(parsed.dataset, dataset => handleDiffSnapshots(dataset, parsed));
+    }
+  );
+
+  server.tool(
+    TOOL_DEFINITIONS.get_node_history.name,
+    TOOL_DEFINITIONS.get_node_history.description,
+    TOOL_DEFINITIONS.get_node_history.schema.shape,
+    async (args) => {
+      const parsed = GetNodeHistorySchema.parse(args);
+      return withDataset(parsed.dataset, dataset => handleGetNodeHistory(dataset, parsed));
+    }
+  );
+}
+
+// Tool: export_subgraph
+server.tool(
+  TOOL_DEFINITIONS.export_subgraph.name,
+  TOOL_DEFINITIONS.export_subgraph.description,
+  TOOL_DEFINITIONS.export_subgraph.schema.shape,
+  async (args) => {
+    const parsed = ExportSubgraphSchema.parse(args);
+    return withReadStore(parsed, (store, dataset) =>
+      handleExportSubgraph(store, parsed, dataset.info.name, synonyms)
+    );
+  }
 );
 
 // ============================================================================
 // Server Startup
 // ============================================================================
 
+/**
+ * Drop cached vectors of node versions no dataset serves any more
+ */
+function pruneEmbeddings() {
+  if (!embeddingProvider) return;
+  const stores = Array.from(registry.datasets.values(), dataset => dataset.store);
+  if (pruneEmbeddingCache(embeddingCache, stores) > 0) {
+    void saveEmbeddingCache(embeddingCache);
+  }
+}
+
+/**
+ * Log the outcome of an automatic reload
+ */
+function logReloadResult(result: ReloadResult) {
+  if (result.status === "reloaded") {
+    console.error(
+      `Reloaded ${result.info.name} (${result.info.dataPath}) in ${result.info.loadDurationMs}ms (sha256 ${result.info.fileHash.slice(0, 12)})`
+    );
+  } else if (result.status === "failed") {
+    console.error(`Reload of ${result.info.name} (${result.info.dataPath}) failed, keeping previous data: ${result.error.message}`);
+  }
+}
+
+/**
+ * Format a byte count for log output
+ */
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Run the diff-snapshots command, parsing titles with TITLE_GRAMMAR
+ */
+async function diffSnapshotsCommand(): Promise<number> {
+  const [beforePath, afterPath] = process.argv.slice(3).filter(arg => !arg.startsWith("--"));
+  if (!beforePath || !afterPath) {
+    console.error("Usage: diff-snapshots <before.json> <after.json> [--json]");
+    return 1;
+  }
+  for (const filePath of [beforePath, afterPath]) {
+    if (!fs.existsSync(filePath)) {
+      console.error(`ERROR: Data file not found: ${filePath}`);
+      return 1;
+    }
+  }
+
+  try {
+    const titleGrammar = process.env.TITLE_GRAMMAR
+      ? readTitleGrammarFile(process.env.TITLE_GRAMMAR)
+      : DEFAULT_TITLE_GRAMMAR;
+    return await runDiffSnapshots(
+      beforePath,
+      afterPath,
+      titleGrammar,
+      INDEX_CACHE,
+      process.argv.includes("--json")
+    );
+  } catch (error) {
+    console.error("Failed to compare exports:", error);
+    return 1;
+  }
+}
+
 async function main() {
+  if (DIFF_MODE) {
+    process.exit(await diffSnapshotsCommand());
+  }
+
   // Load and index the discourse graph data
   console.error("Loading discourse graph data...");
   console.error(`Server name: ${SERVER_NAME}`);
-  console.error(`Data path: ${DATA_PATH}`);
 
-  // Validate data file exists
-  if (!fs.existsSync(DATA_PATH)) {
-    console.error(`ERROR: Data file not found: ${DATA_PATH}`);
-    console.error(`Please ensure DATA_PATH points to a valid JSON file.`);
-    process.exit(1);
+  // Validate data files exist
+  for (const config of datasetConfig.configs) {
+    console.error(`Data path (${config.name}): ${config.path}`);
+    if (!fs.existsSync(config.path)) {
+      console.error(`ERROR: Data file not found: ${config.path}`);
+      console.error(`Please ensure DATA_PATH, DATA_DIR or DATASETS_CONFIG points to valid JSON files.`);
+      process.exit(1);
+    }
   }
 
   try {
-    dataStore = loadData(DATA_PATH);
-    console.error(`Loaded ${dataStore.allNodes.length} nodes`);
-    console.error(`Loaded ${dataStore.allRelations.length} typed relationships`);
-    console.error(`Loaded ${dataStore.relationDefs.size} relationship types`);
-    console.error(`Researchers: ${dataStore.allCreators.join(", ")}`);
+    const started = Date.now();
+    registry = await openRegistry(datasetConfig.configs, datasetConfig.defaultName, INDEX_CACHE);
+    for (const [name, dataset] of registry.datasets) {
+      const dataStore = dataset.store;
+      console.error(
+        `[${name}] Loaded ${formatMegabytes(dataset.info.fileSize)} in ${dataset.info.loadDurationMs}ms ` +
+          `(index cache: ${dataset.info.indexCache})`
+      );
+      if (dataset.info.indexCacheError) {
+        console.error(`[${name}] Could not write index cache: ${dataset.info.indexCacheError}`);
+      }
+      console.error(`[${name}] Loaded ${dataStore.allNodes.length} nodes`);
+      console.error(`[${name}] Loaded ${dataStore.allRelations.length} typed relationships`);
+      console.error(`[${name}] Loaded ${dataStore.relationDefs.size} relationship types`);
+      console.error(`[${name}] Researchers: ${dataStore.allCreators.join(", ")}`);
+      if (dataset.writer) {
+        console.error(`[${name}] Writable: new nodes and relations go to ${dataset.writer.location}`);
+      }
+      if (dataset.drafts) {
+        console.error(`[${name}] Drafts: ${dataset.drafts.list().length} proposed changes in ${dataset.drafts.location}`);
+      }
+    }
+    if (registry.datasets.size > 1) {
+      console.error(`Serving ${registry.datasets.size} datasets (default: ${registry.defaultName})`);
+    }
+    // maxRSS is reported in kilobytes
+    console.error(
+      `Startup load took ${Date.now() - started}ms; ` +
+        `peak memory ${formatMegabytes(process.resourceUsage().maxRSS * 1024)} RSS, ` +
+        `heap ${formatMegabytes(process.memoryUsage().heapUsed)} in use`
+    );
+    if (embeddingProvider) {
+      console.error(`Semantic search: ${embeddingProvider.kind} provider, model ${embeddingProvider.model}`);
+      pruneEmbeddings();
+    }
   } catch (error) {
     console.error("Failed to load data:", error);
     process.exit(1);
   }
 
+  if (CHECK_MODE) {
+    process.exit(runCheck(registry));
+  }
+
+  if (SYNONYMS_PATH) {
+    try {
+      synonyms = loadSynonyms(SYNONYMS_PATH);
+      console.error(`Loaded ${synonyms.size} synonym entries from ${SYNONYMS_PATH}`);
+    } catch (error) {
+      console.error("Failed to load synonyms:", error);
+      process.exit(1);
+    }
+  }
+
+  if (EXPORT_MODE) {
+    process.exit(await runExportSubgraph(registry, process.argv.slice(3), synonyms));
+  }
+
+  if (WATCH_DATA) {
+    for (const dataset of registry.datasets.values()) {
+      watchDataset(dataset, result => {
+        logReloadResult(result);
+        if (result.status === "reloaded") pruneEmbeddings();
+      });
+      if (dataset.info.watching) {
+        console.error(`Watching ${dataset.info.dataPath} for changes`);
+      }
+    }
+  }
+
   // Connect via stdio transport
   const transport = new StdioServerTransport();
   await server.connect(transport);
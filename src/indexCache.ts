@@ -0,0 +1,120 @@
+/**
+ * Index Cache
+ *
+ * Persists a built DataStore (including its search index) to disk so the
+ * next start can skip parsing and indexing. Each cache file is named after
+ * the export's resolved path (so exports with the same file name in
+ * different directories keep separate caches) and keyed by the sha256 of
+ * its contents and by INDEX_CACHE_VERSION; a cache that does not match
+ * both is ignored and rebuilt.
+ *
+ * Stores are written with the V8 serializer, which keeps Maps and shared
+ * node references (nodesByUid / allNodes / nodesByCreator) intact.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as v8 from "v8";
+import { DataStore } from "./dataLoader.js";
+
+/**
+ * Cache format version
+ * Bump whenever DataStore, SearchIndex or the loader's output changes shape.
+ */
+export const INDEX_CACHE_VERSION = 7;
+
+/**
+ * Cache file contents
+ */
+interface IndexCacheFile {
+  version: number;
+  fileHash: string;
+  createdAt: string;
+  store: DataStore;
+}
+
+/**
+ * File name prefix shared by every cache of one export path
+ * Example: "akamatsulab_query-results_202512290139.9b1e04c2."
+ */
+function cachePrefix(dataPath: string): string {
+  const pathHash = createHash("sha256").update(path.resolve(dataPath)).digest("hex").slice(0, 8);
+  return `${path.basename(dataPath, ".json")}.${pathHash}.`;
+}
+
+/**
+ * Path of the cache file for a given export and content hash
+ * Example: "akamatsulab_query-results_202512290139.9b1e04c2.3f2a9c1b7d4e8f60.index"
+ */
+function cacheFilePath(cacheDir: string, dataPath: string, fileHash: string): string {
+  return path.join(cacheDir, `${cachePrefix(dataPath)}${fileHash.slice(0, 16)}.index`);
+}
+
+/**
+ * Read a cached store for an export, if a valid one exists
+ *
+ * @param cacheDir - Cache directory
+ * @param dataPath - Path to the source export
+ * @param fileHash - sha256 of the source export's current contents
+ * @returns The cached store, or null if missing, stale or unreadable
+ */
+export async function readIndexCache(
+  cacheDir: string,
+  dataPath: string,
+  fileHash: string
+): Promise<DataStore | null> {
+  let cached: IndexCacheFile;
+  try {
+    const buffer = await fs.promises.readFile(cacheFilePath(cacheDir, dataPath, fileHash));
+    cached = v8.deserialize(buffer);
+  } catch {
+    return null;
+  }
+
+  if (cached?.version !== INDEX_CACHE_VERSION || cached.fileHash !== fileHash) {
+    return null;
+  }
+  return cached.store;
+}
+
+/**
+ * Write a store to the cache and remove older caches of the same export
+ *
+ * The file is written under a temporary name and renamed into place, so a
+ * crash mid-write never leaves a truncated cache behind.
+ *
+ * @param cacheDir - Cache directory (created if missing)
+ * @param dataPath - Path to the source export
+ * @param fileHash - sha256 of the source export the store was built from
+ * @param store - The built store
+ */
+export async function writeIndexCache(
+  cacheDir: string,
+  dataPath: string,
+  fileHash: string,
+  store: DataStore
+): Promise<void> {
+  await fs.promises.mkdir(cacheDir, { recursive: true });
+
+  const target = cacheFilePath(cacheDir, dataPath, fileHash);
+  const contents: IndexCacheFile = {
+    version: INDEX_CACHE_VERSION,
+    fileHash,
+    createdAt: new Date().toISOString(),
+    store
+  };
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, v8.serialize(contents));
+  await fs.promises.rename(temp, target);
+
+  // Caches for previous versions of this export are no longer reachable
+  const prefix = cachePrefix(dataPath);
+  for (const file of await fs.promises.readdir(cacheDir)) {
+    const full = path.join(cacheDir, file);
+    const isSameExport = file.startsWith(prefix) && /^[0-9a-f]{16}\.index$/.test(file.slice(prefix.length));
+    if (isSameExport && full !== target) {
+      await fs.promises.rm(full, { force: true });
+    }
+  }
+}
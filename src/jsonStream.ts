@@ -0,0 +1,205 @@
+/**
+ * Streaming JSON Reader
+ *
+ * Reads one top-level array property (e.g. "@graph") of a large JSON file
+ * entry by entry, without holding the whole document in memory. Only the
+ * entry currently being read is buffered; each complete entry is handed to
+ * JSON.parse on its own.
+ */
+
+import * as fs from "fs";
+import { StringDecoder } from "string_decoder";
+
+/**
+ * Character codes used by the scanner
+ */
+const QUOTE = 0x22;         // "
+const BACKSLASH = 0x5c;     // \
+const COLON = 0x3a;         // :
+const COMMA = 0x2c;         // ,
+const OPEN_BRACE = 0x7b;    // {
+const CLOSE_BRACE = 0x7d;   // }
+const OPEN_BRACKET = 0x5b;  // [
+const CLOSE_BRACKET = 0x5d; // ]
+
+/**
+ * Characters that can end or escape inside a string
+ */
+const STRING_SPECIAL = /["\\]/g;
+
+/**
+ * Whether a character is JSON whitespace
+ */
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+/**
+ * Stream the entries of a top-level array property
+ *
+ * Other top-level properties are skipped. Entries are delivered in file
+ * order. Throws if the file is not well-formed JSON or has no such array.
+ *
+ * @param filePath - Path to the JSON file
+ * @param key - Name of the top-level array property
+ * @param onEntry - Called with each parsed entry
+ * @returns Number of entries read
+ */
+export async function streamArrayEntries(
+  filePath: string,
+  key: string,
+  onEntry: (entry: unknown) => void
+): Promise<number> {
+  const decoder = new StringDecoder("utf8");
+
+  let depth = 0;              // Current object/array nesting
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;       // Start of the current top-level string (key candidate)
+  let stringParts: string[] = [];
+  let lastString: string | null = null;
+  let currentKey: string | null = null;
+
+  let inArray = false;        // Inside the requested array
+  let foundArray = false;
+  let entryParts: string[] | null = null;  // Text of the entry being read
+  let entryStart = -1;
+  let entryDepth = 0;         // Depth at which the current entry started
+  let entryCount = 0;
+  // What was last seen in the requested array: its "[", an entry or a ","
+  let arrayState: "open" | "entry" | "comma" = "open";
+
+  const finishEntry = (text: string) => {
+    onEntry(JSON.parse(text));
+    entryCount++;
+  };
+
+  const unexpected = (char: string) => new SyntaxError(`Unexpected '${char}' in JSON file ${filePath}`);
+
+  const scan = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+          continue;
+        }
+
+        // Jump straight to the next quote or backslash
+        STRING_SPECIAL.lastIndex = i;
+        const special = STRING_SPECIAL.exec(chunk);
+        if (!special) break;
+        i = special.index;
+
+        if (chunk.charCodeAt(i) === BACKSLASH) {
+          escaped = true;
+        } else {
+          inString = false;
+          if (stringStart >= 0) {
+            stringParts.push(chunk.slice(stringStart, i + 1));
+            lastString = JSON.parse(stringParts.join(""));
+            stringParts = [];
+            stringStart = -1;
+          }
+        }
+        continue;
+      }
+
+      const code = chunk.charCodeAt(i);
+      if (isWhitespace(code)) continue;
+
+      // Start of an entry in the requested array
+      if (inArray && !entryParts && depth === 2 && code !== COMMA && code !== CLOSE_BRACKET) {
+        if (arrayState === "entry") {
+          throw new SyntaxError(`Missing ',' between "${key}" entries in JSON file ${filePath}`);
+        }
+        entryParts = [];
+        entryStart = i;
+        entryDepth = depth;
+      }
+
+      switch (code) {
+        case QUOTE:
+          inString = true;
+          // Only top-level object keys need to be captured
+          if (depth === 1) {
+            stringStart = i;
+          }
+          break;
+        case COLON:
+          if (depth === 1) currentKey = lastString;
+          break;
+        case OPEN_BRACE:
+        case OPEN_BRACKET:
+          depth++;
+          if (depth === 2 && code === OPEN_BRACKET && currentKey === key) {
+            inArray = true;
+            foundArray = true;
+            arrayState = "open";
+          }
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          if (entryParts && depth === entryDepth + 1) {
+            // Closing the entry's own object/array
+            entryParts.push(chunk.slice(entryStart, i + 1));
+            depth--;
+            finishEntry(entryParts.join(""));
+            entryParts = null;
+            arrayState = "entry";
+            break;
+          }
+          if (entryParts && depth === entryDepth) {
+            // Closing the array right after a scalar entry
+            entryParts.push(chunk.slice(entryStart, i));
+            finishEntry(entryParts.join(""));
+            entryParts = null;
+          } else if (inArray && depth === 2 && arrayState === "comma") {
+            throw unexpected(chunk[i]);
+          }
+          depth--;
+          if (depth < 0) throw unexpected(chunk[i]);
+          if (inArray && depth === 1) inArray = false;
+          if (depth === 1) currentKey = null;
+          break;
+        case COMMA:
+          if (entryParts && depth === entryDepth) {
+            // End of a scalar entry
+            entryParts.push(chunk.slice(entryStart, i));
+            finishEntry(entryParts.join(""));
+            entryParts = null;
+            arrayState = "comma";
+          } else if (inArray && depth === 2) {
+            // Separator after an object or array entry
+            if (arrayState !== "entry") throw unexpected(chunk[i]);
+            arrayState = "comma";
+          }
+          if (depth === 1) currentKey = null;
+          break;
+      }
+    }
+
+    // Carry partial entries and keys over to the next chunk
+    if (entryParts && entryStart >= 0) {
+      entryParts.push(chunk.slice(entryStart));
+    }
+    entryStart = 0;
+    if (stringStart >= 0) {
+      stringParts.push(chunk.slice(stringStart));
+      stringStart = 0;
+    }
+  };
+
+  const stream = fs.createReadStream(filePath);
+  for await (const chunk of stream) {
+    scan(decoder.write(chunk as Buffer));
+  }
+  scan(decoder.end());
+
+  if (depth !== 0 || inString) {
+    throw new SyntaxError(`Unexpected end of JSON file ${filePath}`);
+  }
+  if (!foundArray) {
+    throw new Error(`No "${key}" array found in ${filePath}`);
+  }
+  return entryCount;
+}
@@ -0,0 +1,179 @@
+/**
+ * Node History
+ *
+ * How one node changed across the versions of a dataset (its earlier
+ * exports and the served data, see history.ts): when it appeared, each
+ * change to its title, type, content, creator or typed relations, and when
+ * it disappeared. Consecutive exports in which the node looked the same are
+ * folded into one version.
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { Dataset } from "./dataset.js";
+import { DatasetVersion, loadVersion } from "./history.js";
+import { unifiedDiff } from "./textDiff.js";
+import { DiscourseNode } from "./types.js";
+
+/**
+ * A typed relation of the node, seen from the node
+ */
+export interface NodeRelation {
+  direction: "outgoing" | "incoming";
+  relationshipType: string;
+  /** UID of the relation definition (stays the same if the label changes) */
+  predicateUid: string;
+  /** The node at the other end */
+  uid: string;
+  title: string | null;
+}
+
+/**
+ * The node as it was across one or more consecutive exports
+ */
+export interface NodeVersion {
+  /** First and last export showing this version, and how many did */
+  firstExport: { name: string; date: string };
+  lastExport: { name: string; date: string };
+  exportCount: number;
+  /**
+   * - added: first export with the node
+   * - modified: title, type, content, creator or relations changed
+   * - removed: the node is missing from these exports
+   * - restored: the node is back after being removed
+   */
+  change: "added" | "modified" | "removed" | "restored";
+  /** The node in this version (null when removed) */
+  node: DiscourseNode | null;
+  relations: NodeRelation[];
+  /** Compared with the previous version (for restored nodes, the last one with the node) */
+  changed: Array<"title" | "nodeType" | "content" | "creator" | "relations">;
+  contentDiff: string | null;
+  addedRelations: NodeRelation[];
+  removedRelations: NodeRelation[];
+}
+
+/**
+ * Key identifying a relation of the node across versions
+ */
+function relationKey(relation: NodeRelation): string {
+  return `${relation.direction}\u0000${relation.predicateUid}\u0000${relation.uid}`;
+}
+
+/**
+ * Typed relations of a node in one store
+ */
+function nodeRelations(store: DataStore, uid: string): NodeRelation[] {
+  const title = (other: string) => store.nodesByUid.get(other)?.titleClean ?? null;
+  return [
+    ...(store.relationsBySource.get(uid) || []).map(relation => ({
+      direction: "outgoing" as const,
+      relationshipType: relation.label,
+      predicateUid: relation.predicateUid,
+      uid: relation.destinationUid,
+      title: title(relation.destinationUid)
+    })),
+    ...(store.relationsByDestination.get(uid) || []).map(relation => ({
+      direction: "incoming" as const,
+      relationshipType: relation.label,
+      predicateUid: relation.predicateUid,
+      uid: relation.sourceUid,
+      title: title(relation.sourceUid)
+    }))
+  ];
+}
+
+/**
+ * Relations in `from` whose key is not in `to`
+ */
+function missingRelations(from: NodeRelation[], to: NodeRelation[]): NodeRelation[] {
+  const keys = new Set(to.map(relationKey));
+  return from.filter(relation => !keys.has(relationKey(relation)));
+}
+
+/**
+ * Last version in which the node was present (the first one always is)
+ */
+function lastPresent(history: NodeVersion[]): NodeVersion {
+  for (let i = history.length - 1; i > 0; i--) {
+    if (history[i].node) return history[i];
+  }
+  return history[0];
+}
+
+/**
+ * Trace a node through the versions of its dataset
+ *
+ * Versions are loaded one at a time (through the index cache), so a long
+ * history of large exports takes a while on first use.
+ *
+ * @param dataset - The dataset
+ * @param versions - Its versions, oldest first (see datasetVersions)
+ * @param uid - The node
+ * @returns The node's versions from its first appearance, oldest first
+ *          (empty if no version has the node)
+ */
+export async function nodeHistory(
+  dataset: Dataset,
+  versions: DatasetVersion[],
+  uid: string
+): Promise<NodeVersion[]> {
+  const history: NodeVersion[] = [];
+  for (const version of versions) {
+    const store = await loadVersion(dataset, version);
+    const node = store.nodesByUid.get(uid) ?? null;
+    const relations = node ? nodeRelations(store, uid) : [];
+    const exported = { name: version.name, date: version.date };
+    const previous = history[history.length - 1];
+
+    if (!previous) {
+      if (!node) continue;
+      history.push({
+        firstExport: exported,
+        lastExport: exported,
+        exportCount: 1,
+        change: "added",
+        node,
+        relations,
+        changed: [],
+        contentDiff: null,
+        addedRelations: [],
+        removedRelations: []
+      });
+      continue;
+    }
+
+    // A restored node is compared with its last version before the removal
+    const reference = node && !previous.node ? lastPresent(history) : previous;
+    const before = reference.node;
+    const changed: NodeVersion["changed"] = [];
+    if (before && node) {
+      if (before.title !== node.title) changed.push("title");
+      if (before.nodeType !== node.nodeType) changed.push("nodeType");
+      if (before.content !== node.content) changed.push("content");
+      if (before.creator !== node.creator) changed.push("creator");
+    }
+    const addedRelations = missingRelations(relations, reference.relations);
+    const removedRelations = missingRelations(reference.relations, relations);
+    if (addedRelations.length > 0 || removedRelations.length > 0) changed.push("relations");
+
+    if ((previous.node === null) === (node === null) && changed.length === 0) {
+      previous.lastExport = exported;
+      previous.exportCount++;
+      continue;
+    }
+
+    history.push({
+      firstExport: exported,
+      lastExport: exported,
+      exportCount: 1,
+      change: !node ? "removed" : !previous.node ? "restored" : "modified",
+      node,
+      relations,
+      changed,
+      contentDiff: before && node && changed.includes("content") ? unifiedDiff(before.content, node.content) : null,
+      addedRelations,
+      removedRelations
+    });
+  }
+  return history;
+}
@@ -0,0 +1,144 @@
+/**
+ * Pagination
+ *
+ * Shared offset/cursor + limit contract for list-returning tools.
+ * A cursor is an opaque token encoding the next offset and a fingerprint
+ * of the query it belongs to, so it cannot be replayed against different
+ * filters by mistake.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Paging arguments accepted by list tools
+ */
+export interface PageRequest {
+  /** Zero-based index of the first item (ignored when cursor is given) */
+  offset?: number;
+  /** nextCursor from a previous response */
+  cursor?: string;
+  /** Maximum items per page */
+  limit: number;
+}
+
+/**
+ * Paging metadata returned alongside a page of items
+ */
+export interface PageInfo {
+  totalCount: number;
+  offset: number;
+  limit: number;
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Resolved page window, or an error for an invalid cursor
+ */
+export type PageWindow =
+  | { ok: true; offset: number; limit: number }
+  | { ok: false; error: string };
+
+interface CursorPayload {
+  o: number;  // offset
+  q: string;  // query fingerprint
+}
+
+/**
+ * Fingerprint the non-paging arguments of a request
+ *
+ * @param args - Tool arguments (offset, cursor and limit are ignored)
+ * @returns Short stable hash of the remaining arguments
+ */
+export function queryFingerprint(args: object): string {
+  const filters = Object.entries(args)
+    .filter(([key, value]) => !["offset", "cursor", "limit"].includes(key) && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash("sha1").update(JSON.stringify(filters)).digest("hex").slice(0, 12);
+}
+
+/**
+ * Encode a cursor for the given offset and query
+ */
+function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, q: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Resolve the page window from offset/cursor/limit arguments
+ *
+ * @param request - Paging arguments
+ * @param fingerprint - Fingerprint of the current query (see queryFingerprint)
+ * @returns The window to return, or an error if the cursor is invalid
+ */
+export function resolvePage(request: PageRequest, fingerprint: string): PageWindow {
+  if (!request.cursor) {
+    return { ok: true, offset: request.offset ?? 0, limit: request.limit };
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(request.cursor, "base64url").toString("utf-8"));
+  } catch {
+    return { ok: false, error: "Invalid cursor" };
+  }
+
+  if (!Number.isInteger(payload?.o) || payload.o < 0) {
+    return { ok: false, error: "Invalid cursor" };
+  }
+  if (payload.q !== fingerprint) {
+    return {
+      ok: false,
+      error: "Cursor does not match this query; repeat the original filters or start again without a cursor"
+    };
+  }
+
+  return { ok: true, offset: payload.o, limit: request.limit };
+}
+
+/**
+ * Build paging metadata for a returned page
+ *
+ * @param offset - Offset of the returned page
+ * @param limit - Page size
+ * @param totalCount - Total matching items
+ * @param fingerprint - Fingerprint of the current query
+ */
+export function pageInfo(
+  offset: number,
+  limit: number,
+  totalCount: number,
+  fingerprint: string
+): PageInfo {
+  const nextOffset = offset + limit;
+  return {
+    totalCount,
+    offset,
+    limit,
+    nextCursor: nextOffset < totalCount ? encodeCursor(nextOffset, fingerprint) : null
+  };
+}
+
+/**
+ * Slice a fully materialized list into a page
+ *
+ * @param items - All matching items, in order
+ * @param request - Paging arguments
+ * @param fingerprint - Fingerprint of the current query
+ * @returns The page and its metadata, or an error for an invalid cursor
+ */
+export function paginate<T>(
+  items: T[],
+  request: PageRequest,
+  fingerprint: string
+): { ok: true; items: T[]; page: PageInfo } | { ok: false; error: string } {
+  const window = resolvePage(request, fingerprint);
+  if (!window.ok) return window;
+
+  return {
+    ok: true,
+    items: items.slice(window.offset, window.offset + window.limit),
+    page: pageInfo(window.offset, window.limit, items.length, fingerprint)
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Dataset Registry
+ *
+ * Lets one server process serve several discourse graph exports, each as a
+ * named Dataset. Datasets come from one of (in priority order):
+ *
+ * 1. DATASETS_CONFIG - a JSON config file:
+ *      {
+ *        "default": "akamatsulab",
+ *        "datasets": [
+ *          { "name": "akamatsulab", "path": "./akamatsulab_query-results_202512290139.json" },
+ *          { "name": "discourse-graphs", "path": "./discourse-graphs_query-results_202512290038.json" }
+ *        ]
+ *      }
+ *    Relative paths resolve against the config file's directory.
+ * 2. DATA_DIR - every *.json export in a directory, named by filename prefix
+ * 3. DATA_PATH - a single export (the original setup)
+ *
+ * A dataset entry may name a title grammar file ("titleGrammar", see
+ * titleGrammar.ts); TITLE_GRAMMAR sets the grammar for datasets without one.
+ * An entry with an "overlay" file (OVERLAY_PATH for DATA_PATH) is writable
+ * through the write tools, and one with a "drafts" file (DRAFTS_PATH) takes
+ * proposed changes for review. A "history" directory (HISTORY_DIR) holds
+ * earlier exports of the dataset, for comparing and querying snapshots.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Dataset, IndexCacheOptions, openDataset } from "./dataset.js";
+import { DEFAULT_TITLE_GRAMMAR, readTitleGrammarFile } from "./titleGrammar.js";
+
+/**
+ * Configuration for one dataset
+ */
+export interface DatasetConfig {
+  name: string;
+  path: string;
+  /** Title grammar file (default: the "[[XXX]] - " convention) */
+  titleGrammar?: string;
+  /** Overlay file for created nodes and relations (default: read-only) */
+  overlay?: string;
+  /** Drafts file for proposed changes (default: no drafts) */
+  drafts?: string;
+  /** Directory of earlier exports (default: no history) */
+  history?: string;
+}
+
+/**
+ * Registry configuration file format
+ */
+interface RegistryConfigFile {
+  default?: string;
+  datasets: DatasetConfig[];
+}
+
+/**
+ * Named datasets served by this process
+ */
+export interface DatasetRegistry {
+  datasets: Map<string, Dataset>;
+  defaultName: string;
+}
+
+/**
+ * Dataset resolution result
+ */
+export type DatasetLookup =
+  | { ok: true; dataset: Dataset }
+  | { ok: false; error: string };
+
+/**
+ * Derive a dataset name from an export filename
+ * Example: "akamatsulab_query-results_202512290139.json" -> "akamatsulab"
+ */
+export function datasetNameFromPath(dataPath: string): string {
+  const filename = path.basename(dataPath, ".json");
+
+  // Extract prefix before "_query-results_" or timestamp patterns
+  const match = filename.match(/^([^_]+(?:_[^_]+)*?)(?:_query-results_|_\d{12,})?/);
+
+  return match && match[1] ? match[1] : filename;
+}
+
+/**
+ * Read dataset configuration from the environment
+ *
+ * @param env - Environment variables (DATASETS_CONFIG, DATA_DIR, DATA_PATH, TITLE_GRAMMAR, OVERLAY_PATH, DRAFTS_PATH, HISTORY_DIR)
+ * @param fallbackDataPath - Data path to use when none is configured
+ * @returns Dataset configs and the default dataset name (if configured)
+ */
+export function readDatasetConfigs(
+  env: NodeJS.ProcessEnv,
+  fallbackDataPath: string
+): { configs: DatasetConfig[]; defaultName?: string } {
+  const titleGrammar = env.TITLE_GRAMMAR || undefined;
+
+  if (env.DATASETS_CONFIG) {
+    const configPath = env.DATASETS_CONFIG;
+    const file: RegistryConfigFile = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    const baseDir = path.dirname(path.resolve(configPath));
+    return {
+      configs: file.datasets.map(d => ({
+        name: d.name,
+        path: path.resolve(baseDir, d.path),
+        titleGrammar: d.titleGrammar ? path.resolve(baseDir, d.titleGrammar) : titleGrammar,
+        overlay: d.overlay ? path.resolve(baseDir, d.overlay) : undefined,
+        drafts: d.drafts ? path.resolve(baseDir, d.drafts) : undefined,
+        history: d.history ? path.resolve(baseDir, d.history) : undefined
+      })),
+      defaultName: file.default
+    };
+  }
+
+  if (env.DATA_DIR) {
+    const configs = fs
+      .readdirSync(env.DATA_DIR)
+      .filter(file => file.endsWith(".json"))
+      .sort()
+      .map(file => {
+        const dataPath = path.join(env.DATA_DIR!, file);
+        return { name: datasetNameFromPath(dataPath), path: dataPath, titleGrammar };
+      });
+    return { configs };
+  }
+
+  const dataPath = env.DATA_PATH || fallbackDataPath;
+  return {
+    configs: [
+      {
+        name: datasetNameFromPath(dataPath),
+        path: dataPath,
+        titleGrammar,
+        overlay: env.OVERLAY_PATH || undefined,
+        drafts: env.DRAFTS_PATH || undefined,
+        history: env.HISTORY_DIR || undefined
+      }
+    ]
+  };
+}
+
+/**
+ * Load every configured dataset into a registry
+ *
+ * Duplicate names get a numeric suffix so no dataset is silently dropped.
+ *
+ * @param configs - Datasets to load
+ * @param defaultName - Default dataset (first dataset if omitted)
+ * @param cache - Index cache settings shared by all datasets
+ * @returns The registry (rejects if any dataset fails to load)
+ */
+export async function openRegistry(
+  configs: DatasetConfig[],
+  defaultName?: string,
+  cache: IndexCacheOptions | null = null
+): Promise<DatasetRegistry> {
+  if (configs.length === 0) {
+    throw new Error("No datasets configured");
+  }
+
+  const datasets = new Map<string, Dataset>();
+  for (const config of configs) {
+    let name = config.name;
+    for (let n = 2; datasets.has(name); n++) {
+      name = `${config.name}-${n}`;
+    }
+
+    try {
+      const titleGrammar = config.titleGrammar
+        ? readTitleGrammarFile(config.titleGrammar)
+        : DEFAULT_TITLE_GRAMMAR;
+      datasets.set(
+        name,
+        await openDataset(
+          config.path,
+          name,
+          cache,
+          titleGrammar,
+          config.overlay ?? null,
+          config.drafts ?? null,
+          config.history ?? null
+        )
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load dataset '${name}' from ${config.path}: ${message}`);
+    }
+  }
+
+  const resolvedDefault = defaultName ?? datasets.keys().next().value!;
+  if (!datasets.has(resolvedDefault)) {
+    throw new Error(`Default dataset '${resolvedDefault}' is not configured`);
+  }
+
+  return { datasets, defaultName: resolvedDefault };
+}
+
+/**
+ * Look up a dataset by name, or the default dataset when no name is given
+ */
+export function resolveDataset(registry: DatasetRegistry, name?: string): DatasetLookup {
+  const dataset = registry.datasets.get(name ?? registry.defaultName);
+  if (!dataset) {
+    return {
+      ok: false,
+      error: `Unknown dataset '${name}'. Available datasets: ${Array.from(registry.datasets.keys()).join(", ")}`
+    };
+  }
+  return { ok: true, dataset };
+}
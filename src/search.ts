@@ -1,12 +1,31 @@
 /**
  * Search Implementation
  *
- * Simple keyword-based search across discourse nodes.
- * Matches all query words against title and content.
+ * Keyword search across discourse nodes.
+ * Queries are parsed into a boolean expression tree supporting quoted
+ * phrases, AND/OR/NOT with grouping, negation and field prefixes. Matches
+ * are ranked by BM25 relevance using the data store's inverted index.
+ *
+ * Terms are normalized (so "Arp2/3" matches "Arp 2/3") and expanded by
+ * Porter stem, edit distance and configured synonyms before matching.
+ *
+ * Query syntax examples:
+ *   "membrane tension" AND (actin OR arp2/3) -yeast
+ *   title:capping creator:akamatsu
+ *   type:CLM created:>2024-01-01
  */
 
+import * as fs from "fs";
 import { DiscourseNode, NodeType } from "./types.js";
 import { DataStore } from "./dataLoader.js";
+import { normalizeText, scoreBm25, SearchIndex, tokenize } from "./searchIndex.js";
+import { stem } from "./stemmer.js";
+import { compareDates, DateRangeFilter, isInDateRange, parseDateSpan, parseTimestamp } from "./dates.js";
+
+/**
+ * Fields search results can be ordered by
+ */
+export type SearchOrderBy = "relevance" | "created" | "modified" | "title";
 
 /**
  * Search result with summary information
@@ -17,8 +36,11 @@ export interface SearchResult {
   title: string;
   creator: string;
   created: string;
+  modified: string;
   snippet: string;
   imageCount: number;
+  score: number;  // BM25 relevance score (higher = stronger match)
+  dataset?: string;  // Source dataset (cross-dataset search only)
 }
 
 /**
@@ -30,7 +52,7 @@ export interface SearchResult {
  * @param maxLength - Maximum snippet length (default 200)
  * @returns Truncated content snippet
  */
-function createSnippet(content: string, maxLength: number = 200): string {
+export function createSnippet(content: string, maxLength: number = 200): string {
   // Remove markdown/frontmatter header if present
   let cleanContent = content.replace(/^---[\s\S]*?---\n?/, "").trim();
 
@@ -48,89 +70,847 @@ function createSnippet(content: string, maxLength: number = 200): string {
   return cleanContent;
 }
 
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+/**
+ * Text fields a term can be scoped to (null = title or content)
+ */
+export type TextField = "title" | "content" | "type" | "creator";
+
+/**
+ * Date fields a comparison can be scoped to
+ */
+export type DateField = "created" | "modified";
+
+/**
+ * Comparison operators for date fields
+ */
+export type DateOperator = ">" | ">=" | "<" | "<=" | "=";
+
+/**
+ * Parsed query expression tree
+ */
+export type QueryNode =
+  | { kind: "term"; field: TextField | null; value: string; phrase: boolean }
+  | { kind: "date"; field: DateField; op: DateOperator; value: string; start: number; end: number }
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode };
+
+/**
+ * Structured description of a malformed query
+ */
+export interface QueryParseError {
+  message: string;
+  position: number;  // Character offset in the query string
+}
+
+/**
+ * Result of parsing a query string (ast is null for an empty query)
+ */
+export type ParsedQuery =
+  | { ok: true; ast: QueryNode | null }
+  | { ok: false; error: QueryParseError };
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" | "minus"; position: number }
+  | { type: "word" | "phrase"; value: string; position: number }
+  | { type: "field"; field: string; value: string; phrase: boolean; position: number };
+
+/**
+ * Thrown internally by the tokenizer and parser, converted to QueryParseError
+ */
+class ParseFailure extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const TEXT_FIELDS: readonly string[] = ["title", "content", "type", "creator"];
+const DATE_FIELDS: readonly string[] = ["created", "modified"];
+
+/**
+ * Read a double-quoted phrase starting at the opening quote
+ * @returns The phrase text and the index just past the closing quote
+ */
+function readPhrase(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new ParseFailure("Unterminated quoted phrase", start);
+  }
+  const value = query.slice(start + 1, close).trim();
+  if (!value) {
+    throw new ParseFailure("Empty quoted phrase", start);
+  }
+  return { value, end: close + 1 };
+}
+
+/**
+ * Split a query string into tokens
+ */
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(") {
+      tokens.push({ type: "lparen", position: i++ });
+    } else if (ch === ")") {
+      tokens.push({ type: "rparen", position: i++ });
+    } else if (ch === '"') {
+      const { value, end } = readPhrase(query, i);
+      tokens.push({ type: "phrase", value, position: i });
+      i = end;
+    } else if (ch === "-" && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      // Leading "-" negates the following term or group
+      tokens.push({ type: "minus", position: i++ });
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const word = query.slice(start, i);
+
+      const fieldMatch = word.match(/^([a-zA-Z]+):(.*)$/);
+      if (fieldMatch && [...TEXT_FIELDS, ...DATE_FIELDS].includes(fieldMatch[1].toLowerCase())) {
+        const field = fieldMatch[1].toLowerCase();
+        if (fieldMatch[2] === "" && query[i] === '"') {
+          const { value, end } = readPhrase(query, i);
+          tokens.push({ type: "field", field, value, phrase: true, position: start });
+          i = end;
+        } else if (fieldMatch[2] === "") {
+          throw new ParseFailure(`Missing value for field '${field}:'`, start);
+        } else {
+          tokens.push({ type: "field", field, value: fieldMatch[2], phrase: false, position: start });
+        }
+      } else if (word === "AND") {
+        tokens.push({ type: "and", position: start });
+      } else if (word === "OR") {
+        tokens.push({ type: "or", position: start });
+      } else if (word === "NOT") {
+        tokens.push({ type: "not", position: start });
+      } else {
+        tokens.push({ type: "word", value: word, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date comparison value such as ">2024-01-01" or "<=2024-03-15T12:00"
+ *
+ * Date-only values cover the whole UTC day, so ">2024-01-01" means
+ * "after January 1st" and "=2024-01-01" means "on January 1st".
+ */
+function parseDateTerm(field: DateField, raw: string, position: number): QueryNode {
+  const match = raw.match(/^(>=|<=|>|<|=)?(.+)$/);
+  const op = (match?.[1] || "=") as DateOperator;
+  const value = match?.[2] || "";
+  const span = parseDateSpan(value);
+
+  if (!span) {
+    throw new ParseFailure(`Invalid date '${value}' for field '${field}:'`, position);
+  }
+
+  return { kind: "date", field, op, value, start: span.start, end: span.end };
+}
+
+/**
+ * Recursive-descent parser over query tokens
+ *
+ * Grammar (AND binds tighter than OR, adjacent terms are implicitly ANDed):
+ *   or      := and ("OR" and)*
+ *   and     := unary ("AND"? unary)*
+ *   unary   := ("NOT" | "-") unary | primary
+ *   primary := "(" or ")" | word | phrase | field
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly queryLength: number) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new ParseFailure("Unexpected ')'", extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === "or") {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (let next = this.peek(); next && next.type !== "or" && next.type !== "rparen"; next = this.peek()) {
+      if (next.type === "and") this.index++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === "not" || token?.type === "minus") {
+      this.index++;
+      return { kind: "not", child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ParseFailure("Unexpected end of query", this.queryLength);
+    }
+    this.index++;
+
+    switch (token.type) {
+      case "lparen": {
+        const node = this.parseOr();
+        if (this.peek()?.type !== "rparen") {
+          throw new ParseFailure("Missing closing ')'", token.position);
+        }
+        this.index++;
+        return node;
+      }
+      case "word":
+        return { kind: "term", field: null, value: token.value.toLowerCase(), phrase: false };
+      case "phrase":
+        return { kind: "term", field: null, value: token.value.toLowerCase(), phrase: true };
+      case "field":
+        if (DATE_FIELDS.includes(token.field)) {
+          return parseDateTerm(token.field as DateField, token.value, token.position);
+        }
+        return {
+          kind: "term",
+          field: token.field as TextField,
+          value: token.value.toLowerCase(),
+          phrase: token.phrase
+        };
+      case "rparen":
+        throw new ParseFailure("Unexpected ')'", token.position);
+      default:
+        throw new ParseFailure(`Unexpected operator '${token.type.toUpperCase()}'`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse a search query string into an expression tree
+ *
+ * @param query - Raw query string
+ * @returns The expression tree, or a structured parse error
+ */
+export function parseQuery(query: string): ParsedQuery {
+  try {
+    const ast = new QueryParser(tokenizeQuery(query), query.length).parse();
+    return { ok: true, ast };
+  } catch (error) {
+    if (error instanceof ParseFailure) {
+      return { ok: false, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Term Normalization and Expansion
+// ============================================================================
+
+/**
+ * Ways a query term can be expanded beyond its literal text
+ * - stem: vocabulary words sharing the term's Porter stem (or extending it)
+ * - fuzzy: vocabulary words within a small edit distance (typo tolerance)
+ * - synonym: configured domain synonyms (e.g., "CME" <-> "clathrin-mediated endocytosis")
+ */
+export type ExpansionKind = "stem" | "fuzzy" | "synonym";
+
+export const ALL_EXPANSIONS: readonly ExpansionKind[] = ["stem", "fuzzy", "synonym"];
+
+/**
+ * Synonyms keyed by normalized phrase (see normalizeText)
+ */
+export type SynonymTable = Map<string, string[]>;
+
+/**
+ * A single expansion of a query term, in normalized form
+ */
+interface TermExpansion {
+  kind: ExpansionKind;
+  value: string;
+}
+
+/**
+ * An expansion that matched at least one search result
+ */
+export interface ExpansionReport {
+  term: string;          // Query term as written
+  expansion: string;     // What it was expanded to
+  kind: ExpansionKind;
+  matchedNodes: number;  // Matching nodes that contain the expansion
+}
+
+/**
+ * Score weights for expanded terms relative to literal query terms
+ */
+const EXPANSION_WEIGHTS: Record<ExpansionKind, number> = {
+  stem: 0.8,
+  synonym: 0.8,
+  fuzzy: 0.5
+};
+
+type TermNode = Extract<QueryNode, { kind: "term" }>;
+
+/**
+ * Load a synonym file
+ *
+ * The file is JSON, either an array of synonym groups or an object mapping
+ * a term to its synonyms. Groups are symmetric; mappings are made symmetric.
+ *
+ *   [["CME", "clathrin-mediated endocytosis"], ["Arp2/3", "Arp2/3 complex"]]
+ *   { "CME": ["clathrin-mediated endocytosis"] }
+ *
+ * @param filePath - Path to the synonym JSON file
+ * @returns SynonymTable keyed by normalized phrase
+ */
+export function loadSynonyms(filePath: string): SynonymTable {
+  const raw: string[][] | Record<string, string[]> = JSON.parse(
+    fs.readFileSync(filePath, "utf-8")
+  );
+
+  const groups = Array.isArray(raw)
+    ? raw
+    : Object.entries(raw).map(([term, synonyms]) => [term, ...synonyms]);
+
+  const table: SynonymTable = new Map();
+  for (const group of groups) {
+    const phrases = Array.from(new Set(group.map(normalizeText).filter(p => p.length > 0)));
+    for (const phrase of phrases) {
+      const existing = table.get(phrase) || [];
+      const others = phrases.filter(p => p !== phrase && !existing.includes(p));
+      table.set(phrase, [...existing, ...others]);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Edit distance (optimal string alignment: insertions, deletions,
+ * substitutions and adjacent transpositions) with an early exit once it
+ * exceeds maxDistance
+ *
+ * @returns The edit distance, or maxDistance + 1 if it is larger
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Allowed typos for a token: none below 5 letters, 1 up to 7, 2 from 8
+ */
+function maxTypos(token: string): number {
+  if (!/^[a-z]+$/.test(token) || token.length < 5) return 0;
+  return token.length < 8 ? 1 : 2;
+}
+
+/**
+ * Expand a query term into stem, fuzzy and synonym variants
+ *
+ * Stem and fuzzy expansion only apply to single-word, unquoted terms;
+ * synonyms apply to any term or phrase.
+ *
+ * @param index - Search index providing the vocabulary
+ * @param term - Parsed query term
+ * @param kinds - Which expansions to apply
+ * @param synonyms - Configured synonym table
+ * @returns Expansions, excluding the literal term itself
+ */
+function expandTerm(
+  index: SearchIndex,
+  term: TermNode,
+  kinds: readonly ExpansionKind[],
+  synonyms: SynonymTable
+): TermExpansion[] {
+  const normalized = normalizeText(term.value);
+  const tokens = tokenize(term.value);
+  const expansions: TermExpansion[] = [];
+  const seen = new Set([normalized]);
+
+  const add = (kind: ExpansionKind, value: string) => {
+    if (!seen.has(value)) {
+      seen.add(value);
+      expansions.push({ kind, value });
+    }
+  };
+
+  if (!term.phrase && tokens.length === 1 && /^[a-z]+$/.test(tokens[0])) {
+    const token = tokens[0];
+
+    if (kinds.includes("stem")) {
+      // Exact stem matches, plus stems that extend it slightly
+      // (e.g., "endocytic" -> "endocyt" also reaches "endocytosis")
+      const tokenStem = stem(token);
+      for (const [vocabStem, terms] of index.stems) {
+        const extendsStem =
+          tokenStem.length >= 5 &&
+          vocabStem.startsWith(tokenStem) &&
+          vocabStem.length - tokenStem.length <= 4;
+        if (vocabStem === tokenStem || extendsStem) {
+          terms.forEach(t => add("stem", t));
+        }
+      }
+    }
+
+    const typos = kinds.includes("fuzzy") ? maxTypos(token) : 0;
+    if (typos > 0) {
+      for (const vocabTerm of index.postings.keys()) {
+        if (editDistance(token, vocabTerm, typos) <= typos) {
+          add("fuzzy", vocabTerm);
+        }
+      }
+    }
+  }
+
+  if (kinds.includes("synonym")) {
+    for (const synonym of synonyms.get(normalized) || []) {
+      add("synonym", synonym);
+    }
+  }
+
+  return expansions;
+}
+
+/**
+ * Collect the positive (non-negated) free-text terms of a query
+ * These are the terms that are expanded, scored and reported.
+ */
+function collectPositiveTerms(node: QueryNode | null, negated: boolean = false): TermNode[] {
+  if (!node) return [];
+  switch (node.kind) {
+    case "term":
+      return !negated && (node.field === null || node.field === "title" || node.field === "content")
+        ? [node]
+        : [];
+    case "date":
+      return [];
+    case "and":
+    case "or":
+      return node.children.flatMap(child => collectPositiveTerms(child, negated));
+    case "not":
+      return collectPositiveTerms(node.child, !negated);
+  }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Context shared by all match checks for one query
+ */
+interface MatchContext {
+  index: SearchIndex;
+  /** Expansions per term node (only for title/content/free-text terms) */
+  expansions: Map<TermNode, TermExpansion[]>;
+}
+
+/**
+ * Check whether a date value satisfies a date comparison
+ */
+function matchesDate(value: string, node: Extract<QueryNode, { kind: "date" }>): boolean {
+  const time = parseTimestamp(value);
+  if (time === null) return false;
+
+  switch (node.op) {
+    case ">":
+      return time >= node.end;
+    case ">=":
+      return time >= node.start;
+    case "<":
+      return time < node.start;
+    case "<=":
+      return time < node.end;
+    case "=":
+      return time >= node.start && time < node.end;
+  }
+}
+
+/**
+ * Check whether a node contains a single expansion of a text term
+ */
+function matchesExpansion(
+  ctx: MatchContext,
+  node: DiscourseNode,
+  field: TextField | null,
+  expansion: TermExpansion
+): boolean {
+  if (expansion.kind === "synonym") {
+    // Whole-word phrase match so "cme" doesn't match inside "acme"
+    const text = ctx.index.normalizedText.get(node.uid);
+    const haystack =
+      field === "title" ? text?.title
+      : field === "content" ? text?.content
+      : `${text?.title} ${text?.content}`;
+    return ` ${haystack} `.includes(` ${expansion.value} `);
+  }
+
+  const posting = ctx.index.postings.get(expansion.value)?.get(node.uid);
+  if (!posting) return false;
+  if (field === "title") return posting.titleTf > 0;
+  if (field === "content") return posting.contentTf > 0;
+  return true;
+}
+
+/**
+ * Check whether a node contains a text term literally
+ * Compares both the raw text and the normalized text, so "Arp2/3" also
+ * matches "Arp 2/3" and "clathrin-mediated" matches "clathrin mediated".
+ */
+function matchesLiteral(
+  ctx: MatchContext,
+  node: DiscourseNode,
+  field: TextField | null,
+  value: string
+): boolean {
+  const text = ctx.index.normalizedText.get(node.uid);
+  const raw =
+    field === "title" ? node.title
+    : field === "content" ? node.content
+    : `${node.title} ${node.content}`;
+  const normalized =
+    field === "title" ? text?.title
+    : field === "content" ? text?.content
+    : `${text?.title} ${text?.content}`;
+
+  const normalizedValue = normalizeText(value);
+  return (
+    raw.toLowerCase().includes(value) ||
+    (normalizedValue.length > 0 && (normalized || "").includes(normalizedValue))
+  );
+}
+
 /**
- * Check if a node matches all query words
+ * Evaluate a query expression against a node
  *
+ * @param ctx - Search index and term expansions for this query
  * @param node - The node to check
- * @param queryWords - Array of lowercase query words
- * @returns True if all words appear in title or content
+ * @param query - Parsed query expression
+ * @returns True if the node satisfies the expression
+ */
+function matchesQuery(ctx: MatchContext, node: DiscourseNode, query: QueryNode): boolean {
+  switch (query.kind) {
+    case "term":
+      switch (query.field) {
+        case "type":
+          return (node.nodeType || "").toLowerCase() === query.value;
+        case "creator":
+          return node.creator.toLowerCase().includes(query.value);
+        default:
+          return (
+            matchesLiteral(ctx, node, query.field, query.value) ||
+            (ctx.expansions.get(query) || []).some(expansion =>
+              matchesExpansion(ctx, node, query.field, expansion)
+            )
+          );
+      }
+    case "date":
+      return matchesDate(node[query.field], query);
+    case "and":
+      return query.children.every(child => matchesQuery(ctx, node, child));
+    case "or":
+      return query.children.some(child => matchesQuery(ctx, node, child));
+    case "not":
+      return !matchesQuery(ctx, node, query.child);
+  }
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Fields used to order search results
+ */
+interface RankedFields {
+  score: number;
+  created: string;
+  modified: string;
+  title: string;
+}
+
+/**
+ * Compare two results for the requested ordering and direction
+ */
+function compareRanked(
+  a: RankedFields,
+  b: RankedFields,
+  orderBy: SearchOrderBy,
+  sortDirection: "asc" | "desc"
+): number {
+  let comparison = 0;
+
+  switch (orderBy) {
+    case "relevance":
+      comparison = a.score - b.score;
+      break;
+    case "created":
+    case "modified":
+      // Compare parsed dates chronologically
+      comparison = compareDates(a[orderBy], b[orderBy]);
+      break;
+    case "title":
+      // Compare titles alphabetically (case-insensitive)
+      comparison = a.title.toLowerCase().localeCompare(b.title.toLowerCase());
+      break;
+  }
+
+  // Apply sort direction
+  return sortDirection === "asc" ? comparison : -comparison;
+}
+
+/**
+ * Search options (all optional)
+ */
+export interface SearchOptions {
+  /** Filter by node type */
+  nodeType?: NodeType;
+  /** Filter by creator name (case-insensitive partial match) */
+  creator?: string;
+  /** Filter by creation/modification windows */
+  dateRange?: DateRangeFilter;
+  /** Field to sort by (default relevance) */
+  orderBy?: SearchOrderBy;
+  /** Sort direction (default desc) */
+  sortDirection?: "asc" | "desc";
+  /** Number of ranked results to skip (default 0) */
+  offset?: number;
+  /** Maximum results to return (default 10) */
+  limit?: number;
+  /** Term expansions to apply (default all) */
+  expand?: readonly ExpansionKind[];
+  /** Configured synonyms for synonym expansion */
+  synonyms?: SynonymTable;
+}
+
+/**
+ * Search results plus the term expansions that contributed matches
  */
-function matchesQuery(node: DiscourseNode, queryWords: string[]): boolean {
-  const searchableText = `${node.title} ${node.content}`.toLowerCase();
-  return queryWords.every(word => searchableText.includes(word));
+export interface SearchResponse {
+  results: SearchResult[];
+  /** Total matches before offset/limit */
+  totalCount: number;
+  /** Best score among all matches (0 if none) */
+  topScore: number;
+  expansions: ExpansionReport[];
 }
 
 /**
  * Search nodes by keyword with optional filters
  *
  * @param dataStore - The data store with indexed nodes
- * @param query - Search query string
- * @param nodeType - Optional filter by node type
- * @param creator - Optional filter by creator name
- * @param orderBy - Optional field to sort by (created, modified, title)
- * @param sortDirection - Sort direction (asc or desc, default desc)
- * @param limit - Maximum results to return (default 10)
- * @returns Array of matching search results
+ * @param query - Parsed query expression (null matches every node)
+ * @param options - Filters, sorting, paging and term expansion settings
+ * @returns Matching search results and the expansions that matched
  */
 export function searchNodes(
   dataStore: DataStore,
-  query: string,
-  nodeType?: NodeType,
-  creator?: string,
-  orderBy?: "created" | "modified" | "title",
-  sortDirection: "asc" | "desc" = "desc",
-  limit: number = 10
-): SearchResult[] {
-  // Parse query into lowercase words
-  const queryWords = query
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(w => w.length > 0);
+  query: QueryNode | null,
+  options: SearchOptions = {}
+): SearchResponse {
+  const {
+    nodeType,
+    creator,
+    dateRange = {},
+    orderBy = "relevance",
+    sortDirection = "desc",
+    offset = 0,
+    limit = 10,
+    expand = ALL_EXPANSIONS,
+    synonyms = new Map()
+  } = options;
+  const index = dataStore.searchIndex;
+
+  // Expand each positive term once, and weight literal and expanded
+  // tokens for scoring (literal tokens always win over expansions)
+  const positiveTerms = collectPositiveTerms(query);
+  const ctx: MatchContext = { index, expansions: new Map() };
+  const scoringWeights = new Map<string, number>();
+
+  for (const term of positiveTerms) {
+    const expansions = expandTerm(index, term, expand, synonyms);
+    ctx.expansions.set(term, expansions);
+
+    for (const expansion of expansions) {
+      for (const token of tokenize(expansion.value)) {
+        const weight = EXPANSION_WEIGHTS[expansion.kind];
+        scoringWeights.set(token, Math.max(scoringWeights.get(token) || 0, weight));
+      }
+    }
+  }
+  for (const term of positiveTerms) {
+    for (const token of tokenize(term.value)) {
+      scoringWeights.set(token, 1);
+    }
+  }
 
   // Filter nodes
-  let results = dataStore.allNodes
-    // Filter by query words
-    .filter(node => matchesQuery(node, queryWords))
+  const matches = dataStore.allNodes
+    // Filter by query expression
+    .filter(node => !query || matchesQuery(ctx, node, query))
     // Filter by node type if specified
     .filter(node => !nodeType || node.nodeType === nodeType)
     // Filter by creator if specified (case-insensitive partial match)
     .filter(node =>
       !creator || node.creator.toLowerCase().includes(creator.toLowerCase())
-    );
+    )
+    // Filter by creation/modification windows if specified
+    .filter(node => isInDateRange(node, dateRange));
 
-  // Sort results if orderBy is specified
-  if (orderBy) {
-    results.sort((a, b) => {
-      let comparison = 0;
-
-      switch (orderBy) {
-        case "created":
-        case "modified":
-          // Compare dates as strings (ISO format)
-          comparison = a[orderBy].localeCompare(b[orderBy]);
-          break;
-        case "title":
-          // Compare titles alphabetically (case-insensitive)
-          comparison = a.titleClean.toLowerCase().localeCompare(b.titleClean.toLowerCase());
-          break;
+  // Report which expansions actually matched
+  const expansionReports: ExpansionReport[] = [];
+  for (const term of positiveTerms) {
+    for (const expansion of ctx.expansions.get(term) || []) {
+      const matchedNodes = matches.filter(node =>
+        matchesExpansion(ctx, node, term.field, expansion)
+      ).length;
+      if (matchedNodes > 0) {
+        expansionReports.push({
+          term: term.value,
+          expansion: expansion.value,
+          kind: expansion.kind,
+          matchedNodes
+        });
       }
-
-      // Apply sort direction
-      return sortDirection === "asc" ? comparison : -comparison;
-    });
+    }
   }
 
-  // Limit results
-  results = results.slice(0, limit);
+  // Score every match so relevance is reported regardless of sort order
+  const scored = matches.map(node => ({
+    node,
+    score: scoreBm25(index, node.uid, scoringWeights),
+    created: node.created,
+    modified: node.modified,
+    title: node.titleClean
+  }));
+
+  // Sort results (Array.prototype.sort is stable, so ties keep file order)
+  scored.sort((a, b) => compareRanked(a, b, orderBy, sortDirection));
 
-  // Transform to SearchResult
-  return results.map(node => ({
+  // Page results and transform to SearchResult
+  const results = scored.slice(offset, offset + limit).map(({ node, score }) => ({
     uid: node.uid,
     nodeType: node.nodeType,
     title: node.titleClean,
     creator: node.creator,
     created: node.created,
+    modified: node.modified,
     snippet: createSnippet(node.content),
-    imageCount: node.imageUrls.length
+    imageCount: node.imageUrls.length,
+    score: Math.round(score * 1000) / 1000
   }));
+
+  const topScore = scored.reduce((max, { score }) => Math.max(max, score), 0);
+  return { results, totalCount: scored.length, topScore, expansions: expansionReports };
+}
+
+/**
+ * Search several data stores and merge the results
+ *
+ * Each store is searched for its first offset + limit results, which are
+ * merged in the requested order and tagged with their dataset name.
+ * Matched expansions are summed across stores.
+ *
+ * BM25 scores depend on each index's term statistics, so they are not
+ * comparable between stores: each store's scores are divided by its best
+ * score before merging (1 = the best match in its dataset).
+ *
+ * @param stores - Data stores by dataset name
+ * @param query - Parsed query expression (null matches every node)
+ * @param options - Filters, sorting, paging and term expansion settings
+ * @returns Merged results, total matches across stores and matched expansions
+ */
+export function searchAcrossStores(
+  stores: Map<string, DataStore>,
+  query: QueryNode | null,
+  options: SearchOptions = {}
+): SearchResponse {
+  const { orderBy = "relevance", sortDirection = "desc", offset = 0, limit = 10 } = options;
+
+  const merged: SearchResult[] = [];
+  const expansions = new Map<string, ExpansionReport>();
+  let totalCount = 0;
+  let topScore = 0;
+
+  for (const [name, store] of stores) {
+    const response = searchNodes(store, query, { ...options, offset: 0, limit: offset + limit });
+    totalCount += response.totalCount;
+    const scale = response.topScore > 0 ? 1 / response.topScore : 0;
+    if (scale > 0) topScore = 1;
+    merged.push(
+      ...response.results.map(result => ({
+        ...result,
+        score: Math.round(result.score * scale * 1000) / 1000,
+        dataset: name
+      }))
+    );
+
+    for (const report of response.expansions) {
+      const key = `${report.kind}:${report.term}:${report.expansion}`;
+      const existing = expansions.get(key);
+      if (existing) {
+        existing.matchedNodes += report.matchedNodes;
+      } else {
+        expansions.set(key, { ...report });
+      }
+    }
+  }
+
+  merged.sort((a, b) => compareRanked(a, b, orderBy, sortDirection));
+
+  return {
+    results: merged.slice(offset, offset + limit),
+    totalCount,
+    topScore,
+    expansions: Array.from(expansions.values())
+  };
 }
@@ -0,0 +1,193 @@
+/**
+ * Search Index
+ *
+ * Inverted index over node titles and content, built once at load time.
+ * Used by search to rank matching nodes with BM25 relevance scores and
+ * to expand query terms by stem and edit distance.
+ */
+
+import { DiscourseNode } from "./types.js";
+import { stem } from "./stemmer.js";
+
+/**
+ * Field weights for BM25F-style scoring.
+ * A term in the clean title counts three times as much as one in the content.
+ */
+export const TITLE_WEIGHT = 3;
+export const CONTENT_WEIGHT = 1;
+
+/**
+ * Standard BM25 tuning parameters
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Per-document term frequencies for a single term
+ */
+export interface Posting {
+  titleTf: number;
+  contentTf: number;
+}
+
+/**
+ * Normalized (tokenized and space-joined) text of a node
+ */
+export interface NormalizedText {
+  title: string;
+  content: string;
+}
+
+/**
+ * Inverted index over all nodes in a data store
+ */
+export interface SearchIndex {
+  /** term -> (node UID -> term frequencies) */
+  postings: Map<string, Map<string, Posting>>;
+  /** Porter stem -> vocabulary terms sharing that stem */
+  stems: Map<string, string[]>;
+  /** Normalized title and content by node UID, for phrase matching */
+  normalizedText: Map<string, NormalizedText>;
+  /** Weighted document length by node UID */
+  docLengths: Map<string, number>;
+  /** Average weighted document length */
+  avgDocLength: number;
+  /** Number of indexed documents */
+  docCount: number;
+}
+
+/**
+ * Split text into lowercase alphabetic and numeric tokens
+ * Letter/digit boundaries split too, so "Arp2/3" and "Arp 2/3" agree.
+ * Example: "Arp2/3 branched actin" -> ["arp", "2", "3", "branched", "actin"]
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+|[0-9]+/g) || [];
+}
+
+/**
+ * Normalize text to its space-joined tokens
+ * Example: "Clathrin-mediated Endocytosis" -> "clathrin mediated endocytosis"
+ */
+export function normalizeText(text: string): string {
+  return tokenize(text).join(" ");
+}
+
+/**
+ * Count token occurrences
+ */
+function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Build the inverted index for a set of nodes
+ *
+ * @param nodes - All nodes to index
+ * @returns SearchIndex keyed by term
+ */
+export function buildSearchIndex(nodes: DiscourseNode[]): SearchIndex {
+  const postings = new Map<string, Map<string, Posting>>();
+  const normalizedText = new Map<string, NormalizedText>();
+  const docLengths = new Map<string, number>();
+  let totalLength = 0;
+
+  for (const node of nodes) {
+    const titleTokens = tokenize(node.titleClean);
+    const contentTokens = tokenize(node.content);
+
+    // Full title (with type prefix) so "clm" keeps matching claims
+    normalizedText.set(node.uid, {
+      title: normalizeText(node.title),
+      content: contentTokens.join(" ")
+    });
+
+    const docLength =
+      TITLE_WEIGHT * titleTokens.length + CONTENT_WEIGHT * contentTokens.length;
+    docLengths.set(node.uid, docLength);
+    totalLength += docLength;
+
+    const titleCounts = countTokens(titleTokens);
+    const contentCounts = countTokens(contentTokens);
+    const terms = new Set([...titleCounts.keys(), ...contentCounts.keys()]);
+
+    for (const term of terms) {
+      let termPostings = postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        postings.set(term, termPostings);
+      }
+      termPostings.set(node.uid, {
+        titleTf: titleCounts.get(term) || 0,
+        contentTf: contentCounts.get(term) || 0
+      });
+    }
+  }
+
+  // Group vocabulary terms by stem
+  const stems = new Map<string, string[]>();
+  for (const term of postings.keys()) {
+    const termStem = stem(term);
+    const terms = stems.get(termStem) || [];
+    terms.push(term);
+    stems.set(termStem, terms);
+  }
+
+  return {
+    postings,
+    stems,
+    normalizedText,
+    docLengths,
+    avgDocLength: docLengths.size > 0 ? totalLength / docLengths.size : 0,
+    docCount: docLengths.size
+  };
+}
+
+/**
+ * Inverse document frequency for a term (BM25 variant, always positive)
+ */
+function idf(index: SearchIndex, term: string): number {
+  const df = index.postings.get(term)?.size || 0;
+  return Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5));
+}
+
+/**
+ * Compute the BM25 score of a node for the given query terms
+ *
+ * Title and content frequencies are combined with field weights before
+ * saturation (BM25F), so title hits rank above content-only hits.
+ *
+ * @param index - The search index
+ * @param uid - Node UID to score
+ * @param terms - Tokenized query terms, with an optional weight per term
+ *   (expanded terms such as stems or typo corrections count less than 1)
+ * @returns Relevance score (0 if no term occurs in the node)
+ */
+export function scoreBm25(
+  index: SearchIndex,
+  uid: string,
+  terms: string[] | Map<string, number>
+): number {
+  const docLength = index.docLengths.get(uid) || 0;
+  const lengthNorm =
+    index.avgDocLength > 0 ? 1 - BM25_B + BM25_B * (docLength / index.avgDocLength) : 1;
+
+  const weights = Array.isArray(terms)
+    ? new Map(terms.map(term => [term, 1]))
+    : terms;
+
+  let score = 0;
+  for (const [term, weight] of weights) {
+    const posting = index.postings.get(term)?.get(uid);
+    if (!posting) continue;
+
+    const tf = TITLE_WEIGHT * posting.titleTf + CONTENT_WEIGHT * posting.contentTf;
+    score += weight * idf(index, term) * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+  }
+
+  return score;
+}
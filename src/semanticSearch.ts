@@ -0,0 +1,171 @@
+/**
+ * Semantic Search
+ *
+ * Ranks discourse nodes by embedding similarity to a query text or to
+ * another node, optionally fused with BM25 keyword scores (hybrid mode).
+ */
+
+import { NodeType } from "./types.js";
+import { DataStore } from "./dataLoader.js";
+import {
+  EmbeddingCache,
+  EmbeddingProvider,
+  cosineSimilarity,
+  getNodeVector,
+  saveEmbeddingCache
+} from "./embeddings.js";
+import { createSnippet, QueryNode, searchNodes, SynonymTable } from "./search.js";
+
+/**
+ * Nodes embedded at a time; the cache is saved between batches
+ */
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Minimum time between cache saves while embedding (a save rewrites the file)
+ */
+const EMBED_SAVE_INTERVAL_MS = 30_000;
+
+/**
+ * Semantic search result with similarity and fused scores
+ */
+export interface SemanticSearchResult {
+  uid: string;
+  nodeType: NodeType | null;
+  title: string;
+  creator: string;
+  created: string;
+  snippet: string;
+  similarity: number;       // Cosine similarity to the query vector
+  keywordScore?: number;    // BM25 score (hybrid mode only)
+  score: number;            // Ranking score (similarity, or fused in hybrid mode)
+}
+
+/**
+ * Semantic search options
+ */
+export interface SemanticSearchOptions {
+  /** Vector to compare nodes against */
+  queryVector: number[];
+  /** Node to leave out of the results (when searching by node) */
+  excludeUid?: string;
+  /** semantic = similarity only, hybrid = fuse with keyword search */
+  mode: "semantic" | "hybrid";
+  /** Parsed keyword query for hybrid mode */
+  keywordQuery?: QueryNode | null;
+  /** Weight of similarity vs keyword score in hybrid mode (0-1) */
+  semanticWeight: number;
+  nodeType?: NodeType;
+  creator?: string;
+  synonyms?: SynonymTable;
+}
+
+/**
+ * Semantic search results plus coverage information
+ */
+export interface SemanticSearchResponse {
+  /** All scored candidates, best first (callers page through them) */
+  results: SemanticSearchResult[];
+  /** Candidate nodes with no embedding available (sidecar gaps or stale vectors) */
+  missingVectors: number;
+}
+
+/**
+ * Rank nodes by similarity to a query vector
+ *
+ * In hybrid mode the score is a weighted sum of cosine similarity (clamped
+ * at 0) and the BM25 score normalized by the best keyword match.
+ *
+ * Missing vectors are embedded in batches, and new vectors are saved along
+ * the way, so a first search over a large graph that fails or times out
+ * still leaves most of its work in the cache.
+ *
+ * @param dataStore - The data store to search
+ * @param provider - Embedding provider for node vectors
+ * @param cache - Vector cache for the provider's model
+ * @param options - Query vector, mode and filters
+ * @returns Ranked results and how many candidates lacked vectors
+ */
+export async function semanticSearch(
+  dataStore: DataStore,
+  provider: EmbeddingProvider,
+  cache: EmbeddingCache,
+  options: SemanticSearchOptions
+): Promise<SemanticSearchResponse> {
+  const { nodeType, creator } = options;
+
+  const candidates = dataStore.allNodes
+    .filter(node => node.uid !== options.excludeUid)
+    .filter(node => !nodeType || node.nodeType === nodeType)
+    .filter(node =>
+      !creator || node.creator.toLowerCase().includes(creator.toLowerCase())
+    );
+
+  // Keyword scores for hybrid mode, normalized to 0-1 by the best match
+  const keywordScores = new Map<string, number>();
+  if (options.mode === "hybrid" && options.keywordQuery !== undefined) {
+    const { results } = searchNodes(dataStore, options.keywordQuery, {
+      nodeType,
+      creator,
+      limit: dataStore.allNodes.length,
+      synonyms: options.synonyms
+    });
+    for (const result of results) {
+      keywordScores.set(result.uid, result.score);
+    }
+  }
+  const maxKeywordScore = Math.max(0, ...keywordScores.values());
+
+  const scored: SemanticSearchResult[] = [];
+  let missingVectors = 0;
+  let lastSave = Date.now();
+
+  for (let start = 0; start < candidates.length; start += EMBED_BATCH_SIZE) {
+    const batch = candidates.slice(start, start + EMBED_BATCH_SIZE);
+    const vectors = await Promise.all(batch.map(node => getNodeVector(provider, cache, node)));
+
+    for (let i = 0; i < batch.length; i++) {
+      const node = batch[i];
+      const vector = vectors[i];
+      if (!vector) missingVectors++;
+
+      const similarity = vector ? cosineSimilarity(options.queryVector, vector) : 0;
+      const keywordScore = keywordScores.get(node.uid);
+
+      let score: number;
+      if (options.mode === "hybrid") {
+        // Only fuse nodes that at least one signal found
+        if (!vector && keywordScore === undefined) continue;
+        const keywordNorm = keywordScore && maxKeywordScore > 0 ? keywordScore / maxKeywordScore : 0;
+        score =
+          options.semanticWeight * Math.max(similarity, 0) +
+          (1 - options.semanticWeight) * keywordNorm;
+      } else {
+        if (!vector) continue;
+        score = similarity;
+      }
+
+      scored.push({
+        uid: node.uid,
+        nodeType: node.nodeType,
+        title: node.titleClean,
+        creator: node.creator,
+        created: node.created,
+        snippet: createSnippet(node.content),
+        similarity: Math.round(similarity * 1000) / 1000,
+        ...(options.mode === "hybrid" ? { keywordScore: keywordScore ?? 0 } : {}),
+        score: Math.round(score * 1000) / 1000
+      });
+    }
+
+    if (cache.dirty && Date.now() - lastSave >= EMBED_SAVE_INTERVAL_MS) {
+      await saveEmbeddingCache(cache);
+      lastSave = Date.now();
+    }
+  }
+
+  await saveEmbeddingCache(cache);
+
+  scored.sort((a, b) => b.score - a.score);
+  return { results: scored, missingVectors };
+}
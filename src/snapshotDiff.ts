@@ -0,0 +1,250 @@
+/**
+ * Snapshot Diff
+ *
+ * What changed between two loaded exports of the same graph: nodes added,
+ * removed or modified (with content diffs), relations added or removed,
+ * researchers who appear for the first time, and changes to the node
+ * schemas and relation definitions.
+ *
+ * Nodes are matched by UID and relations by predicate, source and
+ * destination (the export gives relation instances no IDs).
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { DiscourseNode, NodeSchema, RelationDef, RelationInstance } from "./types.js";
+import { unifiedDiff } from "./textDiff.js";
+
+/**
+ * A node present in both snapshots whose title, type, content or creator differ
+ */
+export interface NodeChange {
+  before: DiscourseNode;
+  after: DiscourseNode;
+  /** Fields that differ */
+  changed: Array<"title" | "nodeType" | "content" | "creator">;
+  /** Unified diff of the content (null if unchanged) */
+  contentDiff: string | null;
+}
+
+/**
+ * A definition present in both snapshots with different fields
+ */
+export interface DefinitionChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * Changes to the ontology
+ */
+export interface SchemaChanges {
+  addedNodeSchemas: NodeSchema[];
+  removedNodeSchemas: NodeSchema[];
+  changedNodeSchemas: DefinitionChange<NodeSchema>[];
+  addedRelationDefs: RelationDef[];
+  removedRelationDefs: RelationDef[];
+  changedRelationDefs: DefinitionChange<RelationDef>[];
+}
+
+/**
+ * Everything that changed from one snapshot to the next
+ */
+export interface SnapshotDiff {
+  addedNodes: DiscourseNode[];
+  removedNodes: DiscourseNode[];
+  modifiedNodes: NodeChange[];
+  addedRelations: RelationInstance[];
+  removedRelations: RelationInstance[];
+  /** Creators with nodes in the later snapshot but none in the earlier one */
+  newCreators: string[];
+  schema: SchemaChanges;
+}
+
+/**
+ * Key identifying a relation instance across snapshots
+ */
+function relationKey(relation: RelationInstance): string {
+  return `${relation.predicateUid}\u0000${relation.sourceUid}\u0000${relation.destinationUid}`;
+}
+
+/**
+ * Relations in `from` not matched by one in `to` (repeats are counted)
+ */
+function unmatchedRelations(from: RelationInstance[], to: RelationInstance[]): RelationInstance[] {
+  const remaining = new Map<string, number>();
+  for (const relation of to) {
+    const key = relationKey(relation);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  const unmatched: RelationInstance[] = [];
+  for (const relation of from) {
+    const key = relationKey(relation);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+    } else {
+      unmatched.push(relation);
+    }
+  }
+  return unmatched;
+}
+
+/**
+ * Added, removed and changed entries of two UID-keyed maps
+ */
+function diffDefinitions<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  same: (a: T, b: T) => boolean
+): { added: T[]; removed: T[]; changed: DefinitionChange<T>[] } {
+  const added: T[] = [];
+  const changed: DefinitionChange<T>[] = [];
+  for (const [uid, definition] of after) {
+    const previous = before.get(uid);
+    if (previous === undefined) {
+      added.push(definition);
+    } else if (!same(previous, definition)) {
+      changed.push({ before: previous, after: definition });
+    }
+  }
+  const removed = Array.from(before)
+    .filter(([uid]) => !after.has(uid))
+    .map(([, definition]) => definition);
+  return { added, removed, changed };
+}
+
+/**
+ * Compare two snapshots of a graph
+ *
+ * @param before - The earlier snapshot
+ * @param after - The later snapshot
+ * @returns Changes from before to after, nodes in the later snapshot's order
+ */
+export function diffSnapshots(before: DataStore, after: DataStore): SnapshotDiff {
+  const addedNodes: DiscourseNode[] = [];
+  const modifiedNodes: NodeChange[] = [];
+  for (const node of after.allNodes) {
+    const previous = before.nodesByUid.get(node.uid);
+    if (!previous) {
+      addedNodes.push(node);
+      continue;
+    }
+
+    const changed: NodeChange["changed"] = [];
+    if (previous.title !== node.title) changed.push("title");
+    if (previous.nodeType !== node.nodeType) changed.push("nodeType");
+    if (previous.content !== node.content) changed.push("content");
+    if (previous.creator !== node.creator) changed.push("creator");
+    if (changed.length > 0) {
+      modifiedNodes.push({
+        before: previous,
+        after: node,
+        changed,
+        contentDiff: changed.includes("content") ? unifiedDiff(previous.content, node.content) : null
+      });
+    }
+  }
+  const removedNodes = before.allNodes.filter(node => !after.nodesByUid.has(node.uid));
+
+  const previousCreators = new Set(before.allCreators);
+  const nodeSchemas = diffDefinitions(
+    before.nodeSchemas,
+    after.nodeSchemas,
+    (a, b) => a.label === b.label && a.nodeType === b.nodeType
+  );
+  const relationDefs = diffDefinitions(
+    before.relationDefs,
+    after.relationDefs,
+    (a, b) => a.label === b.label && a.domainUid === b.domainUid && a.rangeUid === b.rangeUid
+  );
+
+  return {
+    addedNodes,
+    removedNodes,
+    modifiedNodes,
+    addedRelations: unmatchedRelations(after.allRelations, before.allRelations),
+    removedRelations: unmatchedRelations(before.allRelations, after.allRelations),
+    newCreators: after.allCreators.filter(creator => !previousCreators.has(creator)),
+    schema: {
+      addedNodeSchemas: nodeSchemas.added,
+      removedNodeSchemas: nodeSchemas.removed,
+      changedNodeSchemas: nodeSchemas.changed,
+      addedRelationDefs: relationDefs.added,
+      removedRelationDefs: relationDefs.removed,
+      changedRelationDefs: relationDefs.changed
+    }
+  };
+}
+
+/**
+ * Options for summarizing a diff
+ */
+export interface SnapshotDiffSummaryOptions {
+  /** Items listed per section (counts always cover all) */
+  limit: number;
+  /** Include content diffs of modified nodes */
+  contentDiffs: boolean;
+}
+
+/**
+ * JSON-friendly summary of a diff, shared by the diff_snapshots tool and
+ * the diff-snapshots command
+ *
+ * @param diff - The diff
+ * @param before - The earlier snapshot (for titles of removed relations' endpoints)
+ * @param after - The later snapshot
+ * @param options - Listing limits
+ */
+export function summarizeSnapshotDiff(
+  diff: SnapshotDiff,
+  before: DataStore,
+  after: DataStore,
+  options: SnapshotDiffSummaryOptions
+) {
+  const node = (n: DiscourseNode) => ({
+    uid: n.uid,
+    nodeType: n.nodeType,
+    title: n.titleClean,
+    creator: n.creator,
+    modified: n.modified
+  });
+  const relation = (store: DataStore) => (r: RelationInstance) => ({
+    relationshipType: r.label,
+    source: { uid: r.sourceUid, title: store.nodesByUid.get(r.sourceUid)?.titleClean ?? null },
+    destination: { uid: r.destinationUid, title: store.nodesByUid.get(r.destinationUid)?.titleClean ?? null }
+  });
+  const list = <T, U>(items: T[], describe: (item: T) => U) => items.slice(0, options.limit).map(describe);
+  const schemaChanges = Object.values(diff.schema).reduce((sum, items) => sum + items.length, 0);
+
+  return {
+    counts: {
+      addedNodes: diff.addedNodes.length,
+      removedNodes: diff.removedNodes.length,
+      modifiedNodes: diff.modifiedNodes.length,
+      addedRelations: diff.addedRelations.length,
+      removedRelations: diff.removedRelations.length,
+      newCreators: diff.newCreators.length,
+      schemaChanges
+    },
+    addedNodes: list(diff.addedNodes, node),
+    removedNodes: list(diff.removedNodes, node),
+    modifiedNodes: list(diff.modifiedNodes, ({ before: previous, after: current, changed, contentDiff }) => ({
+      ...node(current),
+      changed,
+      ...(changed.includes("title") ? { titleChange: { before: previous.title, after: current.title } } : {}),
+      ...(changed.includes("nodeType")
+        ? { nodeTypeChange: { before: previous.nodeType, after: current.nodeType } }
+        : {}),
+      ...(changed.includes("creator") ? { creatorChange: { before: previous.creator, after: current.creator } } : {}),
+      ...(options.contentDiffs && contentDiff ? { contentDiff } : {})
+    })),
+    addedRelations: list(diff.addedRelations, relation(after)),
+    removedRelations: list(diff.removedRelations, relation(before)),
+    newCreators: diff.newCreators.map(creator => ({
+      creator,
+      nodeCount: after.nodesByCreator.get(creator)?.length ?? 0
+    })),
+    schema: diff.schema
+  };
+}
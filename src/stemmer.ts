@@ -0,0 +1,184 @@
+/**
+ * Porter Stemmer
+ *
+ * Implementation of the Porter (1980) suffix-stripping algorithm, used to
+ * conflate inflected forms like "tensions"/"tension" or "capping"/"capped"
+ * during search.
+ *
+ * Reference: M.F. Porter, "An algorithm for suffix stripping", Program 14(3).
+ */
+
+/**
+ * Check whether the letter at position i is a consonant
+ * ("y" is a consonant when it follows a vowel or starts the word)
+ */
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ("aeiou".includes(ch)) return false;
+  if (ch === "y") return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/**
+ * Measure m of a stem: the number of vowel-consonant sequences, [C](VC)^m[V]
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+
+  // Skip leading consonants
+  while (i < n && isConsonant(stem, i)) i++;
+
+  while (i < n) {
+    // Skip vowels
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    // Skip consonants, completing a VC pair
+    while (i < n && isConsonant(stem, i)) i++;
+    m++;
+  }
+
+  return m;
+}
+
+/**
+ * Check whether the stem contains a vowel
+ */
+function containsVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether the stem ends with a double consonant (e.g., "-tt", "-ss")
+ */
+function endsWithDoubleConsonant(stem: string): boolean {
+  const n = stem.length;
+  return n >= 2 && stem[n - 1] === stem[n - 2] && isConsonant(stem, n - 1);
+}
+
+/**
+ * Check whether the stem ends consonant-vowel-consonant, where the final
+ * consonant is not w, x or y (e.g., "-hop", "-fil")
+ */
+function endsCvc(stem: string): boolean {
+  const n = stem.length;
+  if (n < 3) return false;
+  return (
+    isConsonant(stem, n - 3) &&
+    !isConsonant(stem, n - 2) &&
+    isConsonant(stem, n - 1) &&
+    !"wxy".includes(stem[n - 1])
+  );
+}
+
+/**
+ * Replace the first matching suffix when the remaining stem has measure > minMeasure
+ */
+function replaceSuffix(
+  word: string,
+  rules: Array<[string, string]>,
+  minMeasure: number
+): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2_RULES: Array<[string, string]> = [
+  ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"],
+  ["izer", "ize"], ["bli", "ble"], ["alli", "al"], ["entli", "ent"],
+  ["eli", "e"], ["ousli", "ous"], ["ization", "ize"], ["ation", "ate"],
+  ["ator", "ate"], ["alism", "al"], ["iveness", "ive"], ["fulness", "ful"],
+  ["ousness", "ous"], ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"],
+  ["logi", "log"]
+];
+
+const STEP3_RULES: Array<[string, string]> = [
+  ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"],
+  ["ical", "ic"], ["ful", ""], ["ness", ""]
+];
+
+const STEP4_SUFFIXES = [
+  "al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment",
+  "ent", "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize"
+];
+
+/**
+ * Reduce an English word to its Porter stem
+ *
+ * @param word - Lowercase word
+ * @returns The stem (words of 2 letters or fewer are returned unchanged)
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (!w.endsWith("ss") && w.endsWith("s")) w = w.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  let step1bCleanup = false;
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith("ed") && containsVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    step1bCleanup = true;
+  } else if (w.endsWith("ing") && containsVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    step1bCleanup = true;
+  }
+
+  if (step1bCleanup) {
+    if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+      w += "e";
+    } else if (endsWithDoubleConsonant(w) && !"lsz".includes(w[w.length - 1])) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsCvc(w)) {
+      w += "e";
+    }
+  }
+
+  // Step 1c: terminal y -> i when the stem has a vowel
+  if (w.endsWith("y") && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2_RULES, 0);
+  w = replaceSuffix(w, STEP3_RULES, 0);
+
+  // Step 4: strip residual suffixes when m > 1
+  for (const suffix of STEP4_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const stemPart = w.slice(0, -suffix.length);
+      const ionOk = suffix !== "ion" || /[st]$/.test(stemPart);
+      if (measure(stemPart) > 1 && ionOk) w = stemPart;
+      break;
+    }
+  }
+
+  // Step 5a: remove final e
+  if (w.endsWith("e")) {
+    const stemPart = w.slice(0, -1);
+    const m = measure(stemPart);
+    if (m > 1 || (m === 1 && !endsCvc(stemPart))) w = stemPart;
+  }
+
+  // Step 5b: -ll -> -l when m > 1
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith("l")) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
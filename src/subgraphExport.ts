@@ -0,0 +1,344 @@
+/**
+ * Subgraph Export
+ *
+ * Selects part of the graph and writes it in formats visualization tools
+ * read directly: GraphML and GEXF (Gephi, yEd, Cytoscape desktop),
+ * Cytoscape.js JSON, and Graphviz DOT.
+ *
+ * The subgraph is seeded by node UIDs, a search query and/or the
+ * neighborhood of a node, and holds every edge between the selected nodes:
+ * typed relations and (optionally) [[...]] text references. Nodes carry
+ * their type, creator, dates and Roam URL; edges their relation label and
+ * kind ("relation" or "textReference").
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { createNeighborLookup, TraversalDirection } from "./graph.js";
+import { parseQuery, searchNodes, SynonymTable } from "./search.js";
+import { DiscourseNode } from "./types.js";
+
+/**
+ * Supported output formats
+ */
+export const SUBGRAPH_FORMATS = ["graphml", "gexf", "cytoscape", "dot"] as const;
+export type SubgraphFormat = (typeof SUBGRAPH_FORMATS)[number];
+
+/**
+ * Which nodes to export (seeds are combined)
+ */
+export interface SubgraphSelection {
+  /** Nodes to include */
+  uids?: string[];
+  /** Search query; its top `queryLimit` matches are included */
+  query?: string;
+  queryLimit?: number;
+  /** Include this node and its neighbors up to `depth` hops */
+  around?: string;
+  depth?: number;
+  direction?: TraversalDirection;
+  /** Only follow typed relations with this label when collecting the neighborhood */
+  relationshipType?: string;
+  /** Export text reference edges as well as typed relations (default true) */
+  textReferences?: boolean;
+  /** Largest number of nodes exported; later seeds are dropped past it */
+  maxNodes?: number;
+}
+
+/**
+ * An exported edge
+ */
+export interface SubgraphEdge {
+  source: string;
+  target: string;
+  kind: "relation" | "textReference";
+  /** Relation label (null for text references) */
+  label: string | null;
+}
+
+/**
+ * Selected nodes and the edges between them
+ */
+export interface Subgraph {
+  nodes: DiscourseNode[];
+  edges: SubgraphEdge[];
+  /** Requested UIDs not in the graph */
+  missingUids: string[];
+  /** Nodes dropped to stay within maxNodes */
+  droppedNodes: number;
+}
+
+/**
+ * A subgraph, or why none could be selected
+ */
+export type SubgraphResult =
+  | { ok: true; subgraph: Subgraph }
+  | { ok: false; error: string; details?: Record<string, unknown> };
+
+/**
+ * Select a subgraph
+ *
+ * Nodes are taken in seed order (UIDs, then search matches by rank, then
+ * the neighborhood by distance) until maxNodes is reached.
+ *
+ * @param dataStore - The data store
+ * @param selection - Seeds and limits
+ * @param synonyms - Synonyms for query expansion
+ */
+export function selectSubgraph(
+  dataStore: DataStore,
+  selection: SubgraphSelection,
+  synonyms?: SynonymTable
+): SubgraphResult {
+  const { uids = [], query, around, maxNodes = Infinity } = selection;
+  if (uids.length === 0 && query === undefined && around === undefined) {
+    return { ok: false, error: "Give at least one seed: uids, query or around" };
+  }
+
+  const selected: string[] = [];
+  const seen = new Set<string>();
+  let droppedNodes = 0;
+  const include = (uid: string) => {
+    if (seen.has(uid)) return;
+    seen.add(uid);
+    if (selected.length < maxNodes) {
+      selected.push(uid);
+    } else {
+      droppedNodes++;
+    }
+  };
+
+  const missingUids = uids.filter(uid => !dataStore.nodesByUid.has(uid));
+  for (const uid of uids) {
+    if (dataStore.nodesByUid.has(uid)) include(uid);
+  }
+
+  if (query !== undefined) {
+    const parsed = parseQuery(query);
+    if (!parsed.ok) {
+      return { ok: false, error: "Invalid search query", details: { query, parseError: parsed.error } };
+    }
+    const { results } = searchNodes(dataStore, parsed.ast, { limit: selection.queryLimit ?? 50, synonyms });
+    for (const result of results) include(result.uid);
+  }
+
+  if (around !== undefined) {
+    if (!dataStore.nodesByUid.has(around)) {
+      return { ok: false, error: `Node not found: ${around}` };
+    }
+    const neighbors = createNeighborLookup(dataStore, {
+      direction: selection.direction ?? "both",
+      relationshipType: selection.relationshipType
+    });
+    // Breadth-first, so nearer nodes are kept when maxNodes is reached
+    const depthOf = new Map([[around, 0]]);
+    const queue = [around];
+    for (let i = 0; i < queue.length; i++) {
+      const uid = queue[i];
+      include(uid);
+      const depth = depthOf.get(uid)!;
+      if (depth >= (selection.depth ?? 1)) continue;
+      for (const edge of neighbors(uid)) {
+        if (depthOf.has(edge.to)) continue;
+        depthOf.set(edge.to, depth + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    subgraph: {
+      nodes: selected.map(uid => dataStore.nodesByUid.get(uid)!),
+      edges: inducedEdges(dataStore, selected, selection.textReferences ?? true),
+      missingUids,
+      droppedNodes
+    }
+  };
+}
+
+/**
+ * Typed relations and text references between the selected nodes
+ */
+function inducedEdges(dataStore: DataStore, uids: string[], textReferences: boolean): SubgraphEdge[] {
+  const selected = new Set(uids);
+  const edges: SubgraphEdge[] = [];
+  for (const uid of uids) {
+    for (const relation of dataStore.relationsBySource.get(uid) || []) {
+      if (!selected.has(relation.destinationUid)) continue;
+      edges.push({ source: uid, target: relation.destinationUid, kind: "relation", label: relation.label });
+    }
+  }
+  if (textReferences) {
+    for (const uid of uids) {
+      for (const target of new Set(dataStore.nodesByUid.get(uid)!.linkedNodeUids)) {
+        if (target === uid || !selected.has(target)) continue;
+        edges.push({ source: uid, target, kind: "textReference", label: null });
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Node attributes written by every format besides the label, in order
+ */
+const NODE_ATTRIBUTES = ["nodeType", "creator", "created", "modified", "url"] as const;
+
+/**
+ * Attribute values of a node (null = not set)
+ */
+function nodeAttributes(node: DiscourseNode): Array<[string, string | null]> {
+  return NODE_ATTRIBUTES.map(key => [key, node[key]]);
+}
+
+/**
+ * Escape text for XML content and attribute values
+ * Control characters XML 1.0 cannot represent are dropped.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Quote a DOT identifier or attribute value
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+/**
+ * GraphML document
+ */
+function toGraphML(subgraph: Subgraph, name: string): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+    ...NODE_ATTRIBUTES.map(key => `  <key id="${key}" for="node" attr.name="${key}" attr.type="string"/>`),
+    `  <key id="relation" for="edge" attr.name="label" attr.type="string"/>`,
+    `  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>`,
+    `  <graph id="${escapeXml(name)}" edgedefault="directed">`
+  ];
+  for (const node of subgraph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.uid)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.titleClean)}</data>`);
+    for (const [key, value] of nodeAttributes(node)) {
+      if (value !== null) lines.push(`      <data key="${key}">${escapeXml(value)}</data>`);
+    }
+    lines.push(`    </node>`);
+  }
+  subgraph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    if (edge.label !== null) lines.push(`      <data key="relation">${escapeXml(edge.label)}</data>`);
+    lines.push(`      <data key="kind">${edge.kind}</data>`);
+    lines.push(`    </edge>`);
+  });
+  lines.push(`  </graph>`, `</graphml>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * GEXF 1.3 document
+ */
+function toGexf(subgraph: Subgraph, name: string): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta>`,
+    `    <description>${escapeXml(`Subgraph of ${name}`)}</description>`,
+    `  </meta>`,
+    `  <graph defaultedgetype="directed" mode="static">`,
+    `    <attributes class="node">`,
+    ...NODE_ATTRIBUTES.map((key, index) => `      <attribute id="${index}" title="${key}" type="string"/>`),
+    `    </attributes>`,
+    `    <attributes class="edge">`,
+    `      <attribute id="0" title="kind" type="string"/>`,
+    `    </attributes>`,
+    `    <nodes>`
+  ];
+  for (const node of subgraph.nodes) {
+    lines.push(`      <node id="${escapeXml(node.uid)}" label="${escapeXml(node.titleClean)}">`);
+    lines.push(`        <attvalues>`);
+    nodeAttributes(node).forEach(([, value], index) => {
+      if (value !== null) lines.push(`          <attvalue for="${index}" value="${escapeXml(value)}"/>`);
+    });
+    lines.push(`        </attvalues>`);
+    lines.push(`      </node>`);
+  }
+  lines.push(`    </nodes>`, `    <edges>`);
+  subgraph.edges.forEach((edge, index) => {
+    const label = edge.label !== null ? ` label="${escapeXml(edge.label)}"` : "";
+    lines.push(
+      `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${label}>`
+    );
+    lines.push(`        <attvalues>`);
+    lines.push(`          <attvalue for="0" value="${edge.kind}"/>`);
+    lines.push(`        </attvalues>`);
+    lines.push(`      </edge>`);
+  });
+  lines.push(`    </edges>`, `  </graph>`, `</gexf>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Cytoscape.js elements JSON
+ */
+function toCytoscape(subgraph: Subgraph): string {
+  const elements = {
+    nodes: subgraph.nodes.map(node => ({
+      data: { id: node.uid, label: node.titleClean, ...Object.fromEntries(nodeAttributes(node)) }
+    })),
+    edges: subgraph.edges.map((edge, index) => ({
+      data: { id: `e${index}`, source: edge.source, target: edge.target, label: edge.label, kind: edge.kind }
+    }))
+  };
+  return JSON.stringify({ elements }, null, 2) + "\n";
+}
+
+/**
+ * Graphviz DOT digraph (text references are drawn dashed)
+ */
+function toDot(subgraph: Subgraph, name: string): string {
+  const lines = [`digraph ${quoteDot(name)} {`];
+  for (const node of subgraph.nodes) {
+    const attributes = [["label", node.titleClean] as [string, string | null], ...nodeAttributes(node)]
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+      .map(([key, value]) => `${key}=${quoteDot(value)}`);
+    lines.push(`  ${quoteDot(node.uid)} [${attributes.join(", ")}];`);
+  }
+  for (const edge of subgraph.edges) {
+    const attributes =
+      edge.label !== null
+        ? `label=${quoteDot(edge.label)}, kind="relation"`
+        : `kind="textReference", style="dashed"`;
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${attributes}];`);
+  }
+  lines.push(`}`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write a subgraph in one of the supported formats
+ *
+ * @param subgraph - The subgraph
+ * @param format - Output format
+ * @param name - Graph name (e.g., the dataset name)
+ */
+export function formatSubgraph(subgraph: Subgraph, format: SubgraphFormat, name: string): string {
+  switch (format) {
+    case "graphml":
+      return toGraphML(subgraph, name);
+    case "gexf":
+      return toGexf(subgraph, name);
+    case "cytoscape":
+      return toCytoscape(subgraph);
+    case "dot":
+      return toDot(subgraph, name);
+  }
+}
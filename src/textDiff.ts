@@ -0,0 +1,118 @@
+/**
+ * Text Diff
+ *
+ * Line-based unified diff for node content, used to show proposed edits
+ * (and changes between exports) the way reviewers are used to reading them.
+ */
+
+/**
+ * Largest before x after line product diffed line by line; longer texts
+ * are shown as a full replacement
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * One line of a diff
+ */
+interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Longest-common-subsequence line diff
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map(text => ({ op: "-" as const, text })),
+      ...after.map(text => ({ op: "+" as const, text }))
+    ];
+  }
+
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      lines.push({ op: "-", text: before[i++] });
+    } else {
+      lines.push({ op: "+", text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ op: "-", text: before[i++] });
+  while (j < after.length) lines.push({ op: "+", text: after[j++] });
+  return lines;
+}
+
+/**
+ * Unified diff of two texts, without file headers
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @param context - Unchanged lines to keep around each change
+ * @returns "@@ -a,b +c,d @@" hunks, or "" if the texts are equal
+ */
+export function unifiedDiff(before: string, after: string, context: number = 2): string {
+  if (before === after) return "";
+
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+  const output: string[] = [];
+  let index = 0;
+  // Line numbers (1-based) in before/after at lines[index]
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < lines.length) {
+    // Skip to the next change, keeping `context` lines before it
+    let next = index;
+    while (next < lines.length && lines[next].op === " ") next++;
+    if (next === lines.length) break;
+    const start = Math.max(index, next - context);
+    oldLine += start - index;
+    newLine += start - index;
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    let end = next;
+    let unchanged = 0;
+    for (let k = next; k < lines.length; k++) {
+      if (lines[k].op === " ") {
+        unchanged++;
+        if (unchanged > 2 * context) break;
+      } else {
+        unchanged = 0;
+        end = k;
+      }
+    }
+    end = Math.min(lines.length - 1, end + context);
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.op !== "+").length;
+    const newCount = hunk.filter(line => line.op !== "-").length;
+    output.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const line of hunk) output.push(`${line.op}${line.text}`);
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = end + 1;
+  }
+
+  return output.join("\n");
+}
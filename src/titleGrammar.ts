@@ -0,0 +1,143 @@
+/**
+ * Title Grammars
+ *
+ * How a graph encodes node types in titles. Roam discourse graphs use a
+ * "[[CLM]] - " prefix, but other graphs use "[[Flow]]", emoji prefixes or
+ * Obsidian-style "#type" tags. A grammar is a list of regexes tried in
+ * order, plus an optional mapping from matched tokens to node types:
+ *
+ *   {
+ *     "patterns": [
+ *       "^\\[\\[([A-Z]{3})\\]\\]\\s*-?\\s*",
+ *       "^\\[\\[(?<type>[^\\]]+)\\]\\]\\s*-?\\s*",
+ *       { "pattern": "^(?<type>\\p{Extended_Pictographic})\\s*", "flags": "u" },
+ *       "^#(\\w+)\\s+"
+ *     ],
+ *     "types": { "🧪": "EXP", "claim": "CLM" }
+ *   }
+ *
+ * The type token is the named group `type`, else the first capture group.
+ * The clean title is the named group `title` if present, else the rest of
+ * the title after the match. A bare array of patterns is also accepted.
+ *
+ * Tokens are resolved to node types through `types`, then against the
+ * loaded nodeSchemas (by type abbreviation, then by label).
+ */
+
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { NodeSchema, NodeType } from "./types.js";
+
+/**
+ * One title pattern as written in a grammar file
+ */
+export type TitlePatternConfig = string | { pattern: string; flags?: string };
+
+/**
+ * Grammar file contents
+ */
+export interface TitleGrammarConfig {
+  patterns: TitlePatternConfig[];
+  /** Matched token -> node type */
+  types?: Record<string, NodeType>;
+}
+
+/**
+ * Compiled grammar
+ */
+export interface TitleGrammar {
+  patterns: RegExp[];
+  types: Map<string, NodeType>;
+}
+
+/**
+ * Result of matching a title
+ */
+export interface ParsedTitle {
+  /** Type token as written in the title (null = no pattern matched) */
+  typeToken: string | null;
+  titleClean: string;
+}
+
+/**
+ * The Roam discourse graph convention: "[[XXX]] - Title"
+ */
+export const DEFAULT_TITLE_GRAMMAR: TitleGrammarConfig = {
+  patterns: ["^\\[\\[([A-Z]{3})\\]\\]\\s*-?\\s*"]
+};
+
+/**
+ * Compile a grammar, rejecting invalid regexes
+ */
+export function compileTitleGrammar(config: TitleGrammarConfig): TitleGrammar {
+  const patterns = config.patterns.map(entry => {
+    const { pattern, flags } = typeof entry === "string" ? { pattern: entry, flags: "" } : entry;
+    try {
+      return new RegExp(pattern, flags);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid title pattern ${JSON.stringify(pattern)}: ${message}`);
+    }
+  });
+  return { patterns, types: new Map(Object.entries(config.types || {})) };
+}
+
+/**
+ * Read a grammar file (an object with patterns, or a bare pattern array)
+ */
+export function readTitleGrammarFile(filePath: string): TitleGrammarConfig {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const config: TitleGrammarConfig = Array.isArray(parsed) ? { patterns: parsed } : parsed;
+  if (!Array.isArray(config.patterns) || config.patterns.length === 0) {
+    throw new Error(`Title grammar ${filePath} has no patterns`);
+  }
+  compileTitleGrammar(config);  // Fail early on bad regexes
+  return config;
+}
+
+/**
+ * Short stable fingerprint of a grammar, for cache keys
+ */
+export function titleGrammarFingerprint(config: TitleGrammarConfig): string {
+  return createHash("sha256").update(JSON.stringify(config)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Match a title against the grammar's patterns, first match wins
+ * Example: "[[RES]] - The antagonistic force..." -> RES, "The antagonistic force..."
+ */
+export function parseTitle(grammar: TitleGrammar, title: string): ParsedTitle {
+  for (const pattern of grammar.patterns) {
+    const match = title.match(pattern);
+    const typeToken = match?.groups?.type ?? match?.[1];
+    if (!match || !typeToken) continue;
+
+    const rest = match.groups?.title ?? title.slice((match.index ?? 0) + match[0].length);
+    return { typeToken, titleClean: rest.trim() };
+  }
+  return { typeToken: null, titleClean: title.trim() };
+}
+
+/**
+ * Resolve a type token to a node type
+ *
+ * Tries the grammar's type mapping, then schema type abbreviations, then
+ * schema labels (case-insensitive). Unresolved tokens are returned as is,
+ * so the validator can report them.
+ */
+export function resolveNodeType(
+  grammar: TitleGrammar,
+  typeToken: string,
+  nodeSchemas: Map<string, NodeSchema>
+): NodeType {
+  const mapped = grammar.types.get(typeToken);
+  if (mapped) return mapped;
+
+  const lower = typeToken.toLowerCase();
+  let byLabel: NodeType | null = null;
+  for (const schema of nodeSchemas.values()) {
+    if (schema.nodeType === typeToken) return typeToken;
+    if (!byLabel && schema.nodeType && schema.label.toLowerCase() === lower) byLabel = schema.nodeType;
+  }
+  return byLabel ?? typeToken;
+}
@@ -1,7 +1,7 @@
 /**
  * MCP Tool Definitions and Handlers
  *
- * Defines the 8 tools exposed by the discourse graph MCP server:
+ * Defines the tools exposed by the discourse graph MCP server:
  * 1. search_nodes - Full-text search with filters
  * 2. get_node - Get complete node details by UID
  * 3. get_linked_nodes - Graph traversal with typed relationships
@@ -10,12 +10,93 @@
  * 6. get_node_images - Get image URLs for a node
  * 7. get_relationships - Query typed relationships (Supports, Informs, Opposes)
  * 8. get_relation_types - List available relationship type definitions
+ * 9. get_node_neighborhood - K-hop neighborhood traversal
+ * 10. semantic_search - Embedding similarity search (when configured)
+ * 11. reload_data - Reload the data file without restarting
+ * 12. get_dataset_info - Load time, file hash and reload status
+ * 13. list_datasets - Datasets served by this process
+ * 14. find_paths - Shortest and top-k paths between two nodes
+ * 15. get_argument_tree - Evidence tree behind a claim or hypothesis
+ * 16. find_conflicts - Contradictions and circular support
+ * 17. find_gaps - Nodes missing the relations their type expects
+ * 18. get_graph_metrics - Degree, PageRank, betweenness and components
+ * 19. get_clusters - Research threads by community detection
+ * 20. get_backlinks - Nodes that mention a node, with context
+ * 21. validate_graph - Dangling references and schema violations
+ * 22. find_nonconforming_relations - Relations violating domain/range
+ * 23. create_node - Add a discourse node (writable datasets)
+ * 24. create_relation - Add a typed relation (writable datasets)
+ * 25. propose_node - Propose a node for review (datasets with drafts)
+ * 26. propose_relation - Propose a typed relation for review
+ * 27. propose_edit - Propose a new title or content for a node
+ * 28. list_drafts - Proposed changes by status
+ * 29. diff_drafts - What proposed changes would change
+ * 30. review_drafts - Accept or reject proposed changes
+ * 31. export_drafts - Accepted changes as a JSON-LD fragment
+ * 32. diff_snapshots - Changes between two exports (datasets with history)
+ * 33. get_node_history - A node's versions across exports (datasets with history)
+ * 34. export_subgraph - Part of the graph as GraphML, GEXF, Cytoscape.js JSON or DOT
+ *
+ * Read tools also take `asOf` to query an earlier export (see history.ts).
  */
 
 import { z } from "zod";
 import { DataStore } from "./dataLoader.js";
-import { searchNodes } from "./search.js";
-import { NodeType, COMMON_NODE_TYPE_DESCRIPTIONS } from "./types.js";
+import {
+  ALL_EXPANSIONS,
+  parseQuery,
+  QueryNode,
+  searchAcrossStores,
+  searchNodes,
+  SearchOptions,
+  SynonymTable
+} from "./search.js";
+import { EmbeddingCache, EmbeddingProvider, getNodeVector } from "./embeddings.js";
+import { semanticSearch } from "./semanticSearch.js";
+import { isInDateRange, parseDateSpan } from "./dates.js";
+import { pageInfo, paginate, queryFingerprint, resolvePage } from "./pagination.js";
+import { Dataset, draftView, reloadDataset, writeToDataset } from "./dataset.js";
+import { DatasetRegistry } from "./registry.js";
+import { findPaths } from "./graph.js";
+import { buildArgumentTree } from "./argumentTree.js";
+import { Conflict, findConflicts } from "./conflicts.js";
+import { findGaps, RelationExpectation } from "./gaps.js";
+import { getGraphMetrics, GraphMetrics } from "./graphMetrics.js";
+import { getClusters, getClustersAround } from "./clusters.js";
+import { findBacklinks } from "./backlinks.js";
+import { validateGraph } from "./validator.js";
+import { prepareEdit, prepareNode, prepareRelation, PreparedEntry } from "./authoring.js";
+import {
+  Draft,
+  draftDependencies,
+  DraftKind,
+  exportableDrafts,
+  exportAcceptedDrafts,
+  unacceptableDrafts,
+  unresolvedDrafts
+} from "./drafts.js";
+import { unifiedDiff } from "./textDiff.js";
+import {
+  datasetVersions,
+  findSnapshot,
+  isServedExport,
+  listSnapshots,
+  loadSnapshot,
+  Snapshot,
+  snapshotBefore,
+  snapshotDate
+} from "./history.js";
+import { diffSnapshots, summarizeSnapshotDiff } from "./snapshotDiff.js";
+import { nodeHistory, NodeVersion } from "./nodeHistory.js";
+import { formatSubgraph, selectSubgraph, SUBGRAPH_FORMATS } from "./subgraphExport.js";
+import {
+  NodeType,
+  COMMON_NODE_TYPE_DESCRIPTIONS,
+  RawGraphEntry,
+  RawJsonLdNode,
+  RawRelationInstance,
+  RelationInstance
+} from "./types.js";
 
 /**
  * Fetch an image from URL and convert to base64
@@ -38,14 +119,117 @@ async function fetchImageAsBase64(
   }
 }
 
+/**
+ * Build an error tool result with a JSON payload
+ */
+export function errorResult(payload: Record<string, unknown>) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(payload, null, 2)
+      }
+    ],
+    isError: true
+  };
+}
+
 // ============================================================================
 // Tool Input Schemas (using Zod)
 // ============================================================================
 
+/**
+ * Optional date argument, validated with the same parser used for filtering
+ */
+function dateArg(description: string) {
+  return z
+    .string()
+    .refine(value => parseDateSpan(value) !== null, {
+      message: "Invalid date (use e.g. '2024-01-01' or an ISO timestamp)"
+    })
+    .optional()
+    .describe(description);
+}
+
+/**
+ * Dataset selector shared by all tools
+ */
+const datasetArg = z
+  .string()
+  .optional()
+  .describe("Dataset to use (see list_datasets). Defaults to the server's default dataset.");
+
+/**
+ * Draft overlay switch shared by read tools
+ */
+const includeDraftsArg = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Also show pending and accepted drafts (see list_drafts) as if they were part of the graph. Default false");
+
+/**
+ * Point in time for read tools, resolved against the dataset's history
+ */
+const asOfArg = dateArg(
+  "Query the graph as it was at this date: the latest export dated on or before it (e.g., '2025-03-31'). Needs a history directory; omit for the current data"
+);
+
+/**
+ * Dataset selector for search, where omitting it searches every dataset
+ */
+const searchDatasetArg = z
+  .string()
+  .optional()
+  .describe("Dataset to search (see list_datasets). If omitted, all datasets are searched and each result is tagged with its dataset.");
+
+/**
+ * Largest page any list tool returns in one call
+ */
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Paging arguments shared by list tools
+ */
+function paginationShape(defaultLimit: number) {
+  return {
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_PAGE_SIZE)
+      .optional()
+      .default(defaultLimit)
+      .describe(`Maximum number of items per page (default ${defaultLimit}, max ${MAX_PAGE_SIZE})`),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Number of items to skip (ignored when cursor is given)"),
+    cursor: z
+      .string()
+      .optional()
+      .describe("nextCursor from a previous response with the same filters, to fetch the next page")
+  };
+}
+
+/**
+ * Creation/modification window arguments shared by list tools
+ */
+const DateRangeShape = {
+  createdAfter: dateArg("Only include nodes created on or after this date (e.g., '2024-01-01')"),
+  createdBefore: dateArg("Only include nodes created before this date"),
+  modifiedAfter: dateArg("Only include nodes modified on or after this date (e.g., the last group meeting)"),
+  modifiedBefore: dateArg("Only include nodes modified before this date")
+};
+
 export const SearchNodesSchema = z.object({
   query: z
     .string()
-    .describe("Keywords to search for (e.g., 'membrane tension force capping')"),
+    .describe(
+      "Keywords to search for (e.g., 'membrane tension force capping'). Supports quoted phrases, AND/OR/NOT with parentheses, '-' negation, and field prefixes title:, content:, type:, creator:, created:/modified: with >, >=, <, <=, = dates (e.g., '\"membrane tension\" AND (actin OR arp2/3) -yeast', 'title:capping creator:akamatsu created:>2024-01-01')"
+    ),
   nodeType: z
     .string()
     .optional()
@@ -57,25 +241,39 @@ export const SearchNodesSchema = z.object({
     .optional()
     .describe("Filter by researcher name (e.g., 'Matt Akamatsu')"),
   orderBy: z
-    .enum(["created", "modified", "title"])
+    .enum(["relevance", "created", "modified", "title"])
     .optional()
-    .describe("Sort results by field (created = creation date, modified = last modified date, title = alphabetical)"),
+    .default("relevance")
+    .describe("Sort results by field (relevance = BM25 match score, created = creation date, modified = last modified date, title = alphabetical). Default is 'relevance'"),
+  ...DateRangeShape,
   sortDirection: z
     .enum(["asc", "desc"])
     .optional()
     .default("desc")
     .describe("Sort direction (asc = ascending/oldest first, desc = descending/newest first). Default is 'desc'"),
-  limit: z
-    .number()
+  ...paginationShape(10),
+  expand: z
+    .array(z.enum(["stem", "fuzzy", "synonym"]))
     .optional()
-    .default(10)
-    .describe("Maximum number of results to return (default 10)")
+    .default([...ALL_EXPANSIONS])
+    .describe("Term expansions to apply: stem = word variants (endocytic ~ endocytosis), fuzzy = typo tolerance, synonym = configured domain synonyms (CME ~ clathrin-mediated endocytosis). Default is all; pass [] for literal matching only. Expansions that matched are reported in the response."),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: searchDatasetArg
 });
 
 export const GetNodeSchema = z.object({
   uid: z
     .string()
-    .describe("The unique identifier of the node (e.g., 'CnOU48Obk')")
+    .describe("The unique identifier of the node (e.g., 'CnOU48Obk')"),
+  includeMetrics: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Include the node's graph metrics and ranks (degree, PageRank, betweenness; see get_graph_metrics)"),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
 export const GetLinkedNodesSchema = z.object({
@@ -86,10 +284,18 @@ export const GetLinkedNodesSchema = z.object({
     .default("both")
     .describe(
       "outgoing = nodes this links TO, incoming = nodes that link TO this, both = all connections"
-    )
+    ),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
-export const GetSchemaSchema = z.object({});
+export const GetSchemaSchema = z.object({
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
 export const GetResearcherContributionsSchema = z.object({
   creator: z
@@ -101,13 +307,21 @@ export const GetResearcherContributionsSchema = z.object({
   nodeType: z
     .string()
     .optional()
-    .describe("Filter by node type (use get_schema to see available types)")
+    .describe("Filter by node type (use get_schema to see available types)"),
+  ...DateRangeShape,
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
 export const GetNodeImagesSchema = z.object({
   uid: z
     .string()
-    .describe("The unique identifier of the node to get images for")
+    .describe("The unique identifier of the node to get images for"),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
 export const GetRelationshipsSchema = z.object({
@@ -122,10 +336,18 @@ export const GetRelationshipsSchema = z.object({
   relationshipType: z
     .string()
     .optional()
-    .describe("Filter by relationship type label (e.g., 'Supports', 'Informs', 'Opposes')")
+    .describe("Filter by relationship type label (e.g., 'Supports', 'Informs', 'Opposes')"),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
-export const GetRelationTypesSchema = z.object({});
+export const GetRelationTypesSchema = z.object({
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
 export const GetNodeNeighborhoodSchema = z.object({
   uid: z
@@ -149,125 +371,647 @@ export const GetNodeNeighborhoodSchema = z.object({
   relationshipTypeFilter: z
     .string()
     .optional()
-    .describe("Only follow relationships of this type (e.g., 'Supports', 'Informs'). If omitted, follows all relationships.")
+    .describe("Only follow relationships of this type (e.g., 'Supports', 'Informs'). If omitted, follows all relationships."),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
 });
 
-// ============================================================================
-// Tool Handlers
-// ============================================================================
+export const SemanticSearchSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe("Natural-language description of what to find (e.g., 'force generation at the membrane'). Requires a provider that can embed text."),
+  uid: z
+    .string()
+    .optional()
+    .describe("Find nodes similar to this node instead of a text query"),
+  mode: z
+    .enum(["semantic", "hybrid"])
+    .optional()
+    .default("semantic")
+    .describe("semantic = rank by embedding similarity only, hybrid = fuse similarity with keyword (BM25) scores for the query. Default is 'semantic'"),
+  semanticWeight: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .default(0.5)
+    .describe("In hybrid mode, weight of similarity vs keyword score (0-1, default 0.5)"),
+  nodeType: z
+    .string()
+    .optional()
+    .describe("Filter by node type (use get_schema to see available types)"),
+  creator: z
+    .string()
+    .optional()
+    .describe("Filter by researcher name"),
+  ...paginationShape(10),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-/**
- * Handle search_nodes tool
- */
-export function handleSearchNodes(
-  dataStore: DataStore,
-  args: z.infer<typeof SearchNodesSchema>
-) {
-  const results = searchNodes(
-    dataStore,
-    args.query,
-    args.nodeType as NodeType | undefined,
-    args.creator,
-    args.orderBy,
-    args.sortDirection,
-    args.limit
-  );
+export const ReloadDataSchema = z.object({
+  force: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Reload even if the data file has not changed since the last load (also rebuilds the index cache)"),
+  dataset: datasetArg
+});
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify({ results, count: results.length }, null, 2)
-      }
-    ]
-  };
-}
+export const GetDatasetInfoSchema = z.object({
+  dataset: datasetArg
+});
 
-/**
- * Handle get_node tool
- * Returns node details with key image as native MCP image content block
- */
-export async function handleGetNode(
-  dataStore: DataStore,
-  args: z.infer<typeof GetNodeSchema>
-) {
-  const node = dataStore.nodesByUid.get(args.uid);
+export const ListDatasetsSchema = z.object({});
 
-  if (!node) {
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify({ error: `Node not found: ${args.uid}` }, null, 2)
-        }
-      ],
-      isError: true
-    };
-  }
+export const FindPathsSchema = z.object({
+  fromUid: z
+    .string()
+    .describe("UID of the node to start from (e.g., a piece of evidence)"),
+  toUid: z
+    .string()
+    .describe("UID of the node to reach (e.g., a hypothesis)"),
+  maxLength: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .optional()
+    .default(4)
+    .describe("Maximum number of hops per path (1-8, default 4)"),
+  k: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .default(5)
+    .describe("Maximum number of paths to return, shortest first (1-20, default 5)"),
+  direction: z
+    .enum(["outgoing", "incoming", "both"])
+    .optional()
+    .default("both")
+    .describe("Direction edges may be followed: outgoing = only along links, incoming = only against them, both = either way"),
+  nodeTypeFilter: z
+    .string()
+    .optional()
+    .describe("Only pass through intermediate nodes of this type (e.g., 'EVD', 'CLM'). The endpoints may be of any type."),
+  relationshipTypeFilter: z
+    .string()
+    .optional()
+    .describe("Only follow relationships of this type (e.g., 'Supports'). If omitted, follows all relationships and text references."),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-  // Build content array
-  const content: Array<
-    | { type: "text"; text: string }
-    | { type: "image"; data: string; mimeType: string }
-  > = [];
+export const GetArgumentTreeSchema = z.object({
+  uid: z
+    .string()
+    .describe("UID of the claim or hypothesis to explain (e.g., a CLM or HYP node)"),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .default(5)
+    .describe("Maximum number of relation hops below the root (1-10, default 5)"),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-  // Identify the key image (first image in the node)
-  const keyImage = node.imageUrls.length > 0 ? node.imageUrls[0] : null;
+export const FindConflictsSchema = z.object({
+  kind: z
+    .enum(["contested", "circular", "opposedSupport"])
+    .optional()
+    .default("contested")
+    .describe("Conflicts to list: contested = nodes with both supporting and opposing relations, circular = nodes that support each other in a loop, opposedSupport = two nodes that oppose each other and both have supporters. Default 'contested'"),
+  ...paginationShape(20),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-  // Add text metadata
-  content.push({
-    type: "text" as const,
-    text: JSON.stringify(
-      {
-        uid: node.uid,
-        nodeType: node.nodeType,
-        title: node.titleClean,
-        creator: node.creator,
-        created: node.created,
-        modified: node.modified,
-        content: node.content,
-        linkedNodes: node.linkedNodeUids,
-        imageUrls: node.imageUrls,
-        imageCount: node.imageUrls.length,
-        url: node.url
-      },
-      null,
-      2
+export const FindGapsSchema = z.object({
+  nodeType: z
+    .string()
+    .optional()
+    .describe("Only report nodes of this type (e.g., 'QUE' for unanswered questions, 'CLM' for unsupported claims)"),
+  direction: z
+    .enum(["incoming", "outgoing", "both"])
+    .optional()
+    .default("incoming")
+    .describe("incoming = missing relations pointing at the node (e.g., a question no result informs, a claim no evidence supports); outgoing = missing relations from the node (e.g., evidence that supports no claim); both. Default 'incoming'"),
+  creator: z
+    .string()
+    .optional()
+    .describe("Only report nodes by this researcher (partial match)"),
+  minAgeDays: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Only report nodes created at least this many days ago (long-standing gaps)"),
+  maxAgeDays: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Only report nodes created at most this many days ago (recent gaps)"),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
+
+export const GetGraphMetricsSchema = z.object({
+  uid: z
+    .string()
+    .optional()
+    .describe("Get metrics for this node. If omitted, returns the top nodes by the chosen metric."),
+  metric: z
+    .enum(["pageRank", "betweenness", "inDegree", "outDegree"])
+    .optional()
+    .default("pageRank")
+    .describe("Metric to rank by: pageRank = influence via incoming links, betweenness = bridges between parts of the graph, inDegree/outDegree = number of distinct nodes linking in/out. Default 'pageRank'"),
+  nodeType: z
+    .string()
+    .optional()
+    .describe("Only list nodes of this type (e.g., 'CLM', 'EVD'). Ranks are still relative to the whole graph."),
+  ...paginationShape(10),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
+
+export const GetClustersSchema = z.object({
+  aroundUid: z
+    .string()
+    .optional()
+    .describe("Only cluster the subgraph around this node (within 'depth' hops). If omitted, clusters the whole graph."),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .default(2)
+    .describe("Hops from aroundUid to include in the subgraph (1-4, default 2)"),
+  minSize: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(3)
+    .describe("Leave out clusters with fewer members than this (default 3); they are still counted"),
+  ...paginationShape(10),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
+
+export const GetBacklinksSchema = z.object({
+  uid: z.string().describe("The UID of the node to find mentions of"),
+  contextChars: z
+    .number()
+    .int()
+    .min(0)
+    .max(500)
+    .optional()
+    .default(80)
+    .describe("Characters of surrounding text to include on each side of the mention (default 80)"),
+  ...paginationShape(20),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
+
+export const ValidateGraphSchema = z.object({
+  kinds: z
+    .array(
+      z.enum([
+        "danglingEndpoint",
+        "danglingTextReference",
+        "unknownPredicate",
+        "domainViolation",
+        "rangeViolation",
+        "duplicateId",
+        "unknownNodeType",
+        "unmatchedTitle"
+      ])
     )
-  });
+    .optional()
+    .default([
+      "danglingEndpoint",
+      "danglingTextReference",
+      "unknownPredicate",
+      "domainViolation",
+      "rangeViolation",
+      "duplicateId",
+      "unknownNodeType",
+      "unmatchedTitle"
+    ])
+    .describe("Checks to run: danglingEndpoint = relation source/destination is not a node, danglingTextReference = text reference to a missing node, unknownPredicate = relation type not defined, domainViolation/rangeViolation = endpoint type differs from the relation definition, duplicateId = @id used more than once, unknownNodeType = title type with no node schema, unmatchedTitle = title matches no title grammar pattern. Default: all"),
+  severity: z
+    .enum(["error", "warning", "all"])
+    .optional()
+    .default("all")
+    .describe("Only list issues of this severity (counts always cover both). Default 'all'"),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-  // Fetch and add key image as native image content block
-  if (keyImage) {
-    const imageData = await fetchImageAsBase64(keyImage);
-    if (imageData) {
-      content.push({
-        type: "image" as const,
-        data: imageData.data,
-        mimeType: imageData.mimeType
-      });
-    }
-  }
+export const FindNonconformingRelationsSchema = z.object({
+  relationshipType: z
+    .string()
+    .optional()
+    .describe("Only relations of this type (e.g., 'Supports'; case-insensitive)"),
+  nodeType: z
+    .string()
+    .optional()
+    .describe("Only relations with a node of this actual type at either end (e.g., 'CLM' to find claims used where evidence was expected)"),
+  ...paginationShape(50),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
 
-  return { content };
-}
+export const CreateNodeSchema = z.object({
+  nodeType: z
+    .string()
+    .describe("Node type abbreviation or label from get_schema (e.g., 'CLM' or 'Claim')"),
+  title: z
+    .string()
+    .min(1)
+    .describe("Node title; the type prefix (e.g., '[[CLM]] - ') is added if missing"),
+  content: z
+    .string()
+    .optional()
+    .default("")
+    .describe("Markdown content of the node"),
+  creator: z
+    .string()
+    .min(1)
+    .describe("Name of the person the node is attributed to"),
+  dataset: datasetArg
+});
+
+export const CreateRelationSchema = z.object({
+  relationshipType: z
+    .string()
+    .describe("Relation type label or definition UID from get_relation_types (e.g., 'Supports')"),
+  sourceUid: z.string().describe("UID of the source node"),
+  destinationUid: z.string().describe("UID of the destination node"),
+  creator: z
+    .string()
+    .min(1)
+    .describe("Name of the person the relation is attributed to"),
+  dataset: datasetArg
+});
 
 /**
- * Handle get_linked_nodes tool
- * Returns both text references and typed relationships
+ * Rationale attached to a proposed change
  */
-export function handleGetLinkedNodes(
-  dataStore: DataStore,
-  args: z.infer<typeof GetLinkedNodesSchema>
-) {
-  const sourceNode = dataStore.nodesByUid.get(args.uid);
+const draftNoteArg = z
+  .string()
+  .optional()
+  .describe("Why the change is proposed (shown to the reviewer)");
 
-  if (!sourceNode) {
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify({ error: `Node not found: ${args.uid}` }, null, 2)
-        }
+export const ProposeNodeSchema = CreateNodeSchema.extend({
+  note: draftNoteArg
+});
+
+export const ProposeRelationSchema = CreateRelationSchema.extend({
+  sourceUid: z.string().describe("UID of the source node (may be a proposed node)"),
+  destinationUid: z.string().describe("UID of the destination node (may be a proposed node)"),
+  note: draftNoteArg
+});
+
+export const ProposeEditSchema = z.object({
+  uid: z.string().describe("UID of the node to change (may be a proposed node)"),
+  title: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("New title; the node's type prefix is kept if none is given"),
+  content: z
+    .string()
+    .optional()
+    .describe("New markdown content (replaces the whole content)"),
+  proposedBy: z
+    .string()
+    .min(1)
+    .describe("Name of the person proposing the edit (the node keeps its creator)"),
+  note: draftNoteArg,
+  dataset: datasetArg
+});
+
+/**
+ * Draft status filter shared by list_drafts and diff_drafts
+ */
+const draftStatusArg = z
+  .enum(["pending", "accepted", "rejected", "all"])
+  .optional()
+  .default("pending")
+  .describe("Only drafts with this status. Default 'pending' (the review queue)");
+
+export const ListDraftsSchema = z.object({
+  status: draftStatusArg,
+  kind: z
+    .enum(["node", "relation", "edit"])
+    .optional()
+    .describe("Only drafts of this kind: node = new node, relation = new relation, edit = change to a node"),
+  proposedBy: z
+    .string()
+    .optional()
+    .describe("Only drafts proposed by this person (partial match)"),
+  ...paginationShape(50),
+  dataset: datasetArg
+});
+
+export const DiffDraftsSchema = z.object({
+  ids: z
+    .array(z.string())
+    .optional()
+    .describe("Draft IDs to diff (e.g., ['draft-3']). If omitted, diffs every draft with the given status."),
+  status: draftStatusArg,
+  ...paginationShape(20),
+  dataset: datasetArg
+});
+
+export const ReviewDraftsSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1)
+    .describe("Draft IDs to review (see list_drafts)"),
+  decision: z
+    .enum(["accept", "reject"])
+    .describe("accept = approve for export, reject = discard (the draft is kept with status rejected)"),
+  note: z
+    .string()
+    .optional()
+    .describe("Reviewer's comment, stored with the drafts"),
+  dataset: datasetArg
+});
+
+export const ExportDraftsSchema = z.object({
+  dataset: datasetArg
+});
+
+export const DiffSnapshotsSchema = z.object({
+  from: z
+    .string()
+    .optional()
+    .describe("Earlier export: a file name in the dataset's history directory. Defaults to the newest export dated before 'to'."),
+  to: z
+    .string()
+    .optional()
+    .default("current")
+    .describe("Later export: a file name in the history directory, or 'current' for the served data (default)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .default(20)
+    .describe("Maximum items listed per section (added/removed/modified nodes, relations); counts always cover everything. Default 20"),
+  contentDiffs: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Include a unified diff of each modified node's content. Default true"),
+  dataset: datasetArg
+});
+
+export const ExportSubgraphSchema = z.object({
+  format: z
+    .enum(SUBGRAPH_FORMATS)
+    .describe("Output format: graphml or gexf (Gephi, yEd, Cytoscape desktop), cytoscape (Cytoscape.js elements JSON), dot (Graphviz)"),
+  uids: z
+    .array(z.string())
+    .optional()
+    .describe("Nodes to include"),
+  query: z
+    .string()
+    .optional()
+    .describe("Include the top matches of this search query (same syntax as search_nodes)"),
+  queryLimit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .default(50)
+    .describe("Search matches to include (default 50)"),
+  around: z
+    .string()
+    .optional()
+    .describe("Include this node and its neighborhood (typed relations and text references)"),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .default(1)
+    .describe("Hops from 'around' to include (1-4, default 1)"),
+  direction: z
+    .enum(["outgoing", "incoming", "both"])
+    .optional()
+    .default("both")
+    .describe("Direction to traverse from 'around' (default both)"),
+  relationshipTypeFilter: z
+    .string()
+    .optional()
+    .describe("Only follow relationships of this type from 'around' (e.g., 'Supports'). Edges between the exported nodes are all kept."),
+  textReferences: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Export [[...]] text references as edges (kind 'textReference') besides typed relations (kind 'relation'). Default true"),
+  maxNodes: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .optional()
+    .default(500)
+    .describe("Most nodes to export (default 500); the nearest/best-ranked seeds are kept"),
+  includeDrafts: includeDraftsArg,
+  asOf: asOfArg,
+  dataset: datasetArg
+});
+
+export const GetNodeHistorySchema = z.object({
+  uid: z
+    .string()
+    .describe("The unique identifier of the node (e.g., 'CnOU48Obk')"),
+  contentDiffs: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Include a unified diff of the content between versions. Default true"),
+  dataset: datasetArg
+});
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/**
+ * Handle search_nodes tool
+ * Searches one store, or every store in a map with results tagged by dataset.
+ * Synonyms come from the server's synonym file (SYNONYMS_PATH), if any
+ */
+export function handleSearchNodes(
+  stores: DataStore | Map<string, DataStore>,
+  args: z.infer<typeof SearchNodesSchema>,
+  synonyms?: SynonymTable
+) {
+  const parsed = parseQuery(args.query);
+
+  if (!parsed.ok) {
+    return errorResult({ error: "Invalid search query", query: args.query, parseError: parsed.error });
+  }
+
+  const fingerprint = queryFingerprint(args);
+  const window = resolvePage(args, fingerprint);
+  if (!window.ok) {
+    return errorResult({ error: window.error });
+  }
+
+  const options: SearchOptions = {
+    nodeType: args.nodeType as NodeType | undefined,
+    creator: args.creator,
+    dateRange: args,
+    orderBy: args.orderBy,
+    sortDirection: args.sortDirection,
+    offset: window.offset,
+    limit: window.limit,
+    expand: args.expand,
+    synonyms
+  };
+
+  const { results, totalCount, expansions } = stores instanceof Map
+    ? searchAcrossStores(stores, parsed.ast, options)
+    : searchNodes(stores, parsed.ast, options);
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            results,
+            count: results.length,
+            ...pageInfo(window.offset, window.limit, totalCount, fingerprint),
+            expansions
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle get_node tool
+ * Returns node details with key image as native MCP image content block
+ */
+export async function handleGetNode(
+  dataStore: DataStore,
+  args: z.infer<typeof GetNodeSchema>
+) {
+  const node = dataStore.nodesByUid.get(args.uid);
+
+  if (!node) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: `Node not found: ${args.uid}` }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+
+  // Build content array
+  const content: Array<
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }
+  > = [];
+
+  // Identify the key image (first image in the node)
+  const keyImage = node.imageUrls.length > 0 ? node.imageUrls[0] : null;
+
+  // Add text metadata
+  content.push({
+    type: "text" as const,
+    text: JSON.stringify(
+      {
+        uid: node.uid,
+        nodeType: node.nodeType,
+        title: node.titleClean,
+        creator: node.creator,
+        created: node.created,
+        modified: node.modified,
+        content: node.content,
+        linkedNodes: node.linkedNodeUids,
+        imageUrls: node.imageUrls,
+        imageCount: node.imageUrls.length,
+        url: node.url,
+        ...(args.includeMetrics
+          ? { metrics: describeNodeMetrics(getGraphMetrics(dataStore), node.uid) }
+          : {})
+      },
+      null,
+      2
+    )
+  });
+
+  // Fetch and add key image as native image content block
+  if (keyImage) {
+    const imageData = await fetchImageAsBase64(keyImage);
+    if (imageData) {
+      content.push({
+        type: "image" as const,
+        data: imageData.data,
+        mimeType: imageData.mimeType
+      });
+    }
+  }
+
+  return { content };
+}
+
+/**
+ * Handle get_linked_nodes tool
+ * Returns both text references and typed relationships
+ */
+export function handleGetLinkedNodes(
+  dataStore: DataStore,
+  args: z.infer<typeof GetLinkedNodesSchema>
+) {
+  const sourceNode = dataStore.nodesByUid.get(args.uid);
+
+  if (!sourceNode) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: `Node not found: ${args.uid}` }, null, 2)
+        }
       ],
       isError: true
     };
@@ -339,22 +1083,25 @@ export function handleGetLinkedNodes(
     }
 
     // Also include text references (nodes that mention this node)
-    for (const node of dataStore.allNodes) {
-      if (node.uid !== args.uid && node.linkedNodeUids.includes(args.uid)) {
-        if (!addedNodes.has(`in-${node.uid}`)) {
-          linkedNodes.push({
-            uid: node.uid,
-            nodeType: node.nodeType,
-            title: node.titleClean,
-            creator: node.creator,
-            direction: "incoming"
-          });
-          addedNodes.add(`in-${node.uid}`);
-        }
+    for (const node of dataStore.nodesReferencingUid.get(args.uid) || []) {
+      if (!addedNodes.has(`in-${node.uid}`)) {
+        linkedNodes.push({
+          uid: node.uid,
+          nodeType: node.nodeType,
+          title: node.titleClean,
+          creator: node.creator,
+          direction: "incoming"
+        });
+        addedNodes.add(`in-${node.uid}`);
       }
     }
   }
 
+  const paged = paginate(linkedNodes, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
   return {
     content: [
       {
@@ -363,8 +1110,9 @@ export function handleGetLinkedNodes(
           {
             sourceUid: args.uid,
             sourceTitle: sourceNode.titleClean,
-            linkedNodes,
-            count: linkedNodes.length,
+            linkedNodes: paged.items,
+            count: paged.items.length,
+            ...paged.page,
             typedRelationCount: linkedNodes.filter(n => n.relationshipType).length
           },
           null,
@@ -398,6 +1146,9 @@ export function handleGetSchema(dataStore: DataStore) {
     };
   }
 
+  // Nodes whose titles matched no title grammar pattern
+  const untyped = dataStore.allNodes.filter(node => node.nodeType === null);
+
   return {
     content: [
       {
@@ -406,6 +1157,10 @@ export function handleGetSchema(dataStore: DataStore) {
           {
             nodeTypes,
             totalSchemas: dataStore.nodeSchemas.size,
+            unmatchedTitles: {
+              count: untyped.length,
+              examples: untyped.slice(0, 10).map(node => ({ uid: node.uid, title: node.title }))
+            },
             dataSource: "Roam Research discourse graph"
           },
           null,
@@ -442,6 +1197,14 @@ export function handleGetResearcherContributions(
       nodes = nodes.filter(n => n.nodeType === args.nodeType);
     }
 
+    // Filter by creation/modification windows
+    nodes = nodes.filter(n => isInDateRange(n, args));
+
+    const paged = paginate(nodes, args, queryFingerprint(args));
+    if (!paged.ok) {
+      return errorResult({ error: paged.error });
+    }
+
     return {
       content: [
         {
@@ -449,14 +1212,16 @@ export function handleGetResearcherContributions(
           text: JSON.stringify(
             {
               creator: args.creator,
-              contributions: nodes.map(n => ({
+              contributions: paged.items.map(n => ({
                 uid: n.uid,
                 nodeType: n.nodeType,
                 title: n.titleClean,
                 created: n.created,
+                modified: n.modified,
                 imageCount: n.imageUrls.length
               })),
-              count: nodes.length
+              count: paged.items.length,
+              ...paged.page
             },
             null,
             2
@@ -472,7 +1237,11 @@ export function handleGetResearcherContributions(
       byType: Record<string, number>;
     }> = [];
 
-    for (const [creator, nodes] of dataStore.nodesByCreator.entries()) {
+    for (const [creator, creatorNodes] of dataStore.nodesByCreator.entries()) {
+      // Only count nodes inside the requested date windows
+      const nodes = creatorNodes.filter(n => isInDateRange(n, args));
+      if (nodes.length === 0) continue;
+
       const byType: Record<string, number> = {};
       for (const node of nodes) {
         const type = node.nodeType || "UNKNOWN";
@@ -484,11 +1253,20 @@ export function handleGetResearcherContributions(
     // Sort by total contributions descending
     summary.sort((a, b) => b.totalNodes - a.totalNodes);
 
+    const paged = paginate(summary, args, queryFingerprint(args));
+    if (!paged.ok) {
+      return errorResult({ error: paged.error });
+    }
+
     return {
       content: [
         {
           type: "text" as const,
-          text: JSON.stringify({ researchers: summary }, null, 2)
+          text: JSON.stringify(
+            { researchers: paged.items, count: paged.items.length, ...paged.page },
+            null,
+            2
+          )
         }
       ]
     };
@@ -580,8 +1358,13 @@ export function handleGetRelationships(
     relationships = relationships.filter(r => r.label.toLowerCase() === typeFilter);
   }
 
-  // Enrich with node details
-  const enrichedRelationships = relationships.map(r => {
+  const paged = paginate(relationships, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  // Enrich the returned page with node details
+  const enrichedRelationships = paged.items.map(r => {
     const sourceNode = dataStore.nodesByUid.get(r.sourceUid);
     const destNode = dataStore.nodesByUid.get(r.destinationUid);
     return {
@@ -592,7 +1375,8 @@ export function handleGetRelationships(
         ? { uid: destNode.uid, title: destNode.titleClean, nodeType: destNode.nodeType }
         : { uid: r.destinationUid, title: "Unknown", nodeType: null },
       relationshipType: r.label,
-      predicateUid: r.predicateUid
+      predicateUid: r.predicateUid,
+      conformsToSchema: r.conformsToSchema
     };
   });
 
@@ -603,7 +1387,8 @@ export function handleGetRelationships(
         text: JSON.stringify(
           {
             relationships: enrichedRelationships,
-            count: enrichedRelationships.length
+            count: enrichedRelationships.length,
+            ...paged.page
           },
           null,
           2
@@ -633,10 +1418,33 @@ export function handleGetRelationTypes(dataStore: DataStore) {
     typeCounts.set(rel.label, count + 1);
   }
 
-  const relationTypesWithCounts = relationTypes.map(rt => ({
-    ...rt,
-    instanceCount: typeCounts.get(rt.label) || 0
-  }));
+  // Count instances of each definition, and how many match its domain/range
+  const definitionCounts = new Map<string, { instances: number; conforming: number }>();
+  let conformingTotal = 0;
+  for (const rel of dataStore.allRelations) {
+    const counts = definitionCounts.get(rel.predicateUid) || { instances: 0, conforming: 0 };
+    counts.instances++;
+    if (rel.conformsToSchema) {
+      counts.conforming++;
+      conformingTotal++;
+    }
+    definitionCounts.set(rel.predicateUid, counts);
+  }
+  const rate = (conforming: number, instances: number) =>
+    instances > 0 ? Math.round((conforming / instances) * 1000) / 1000 : null;
+
+  const relationTypesWithCounts = relationTypes.map(rt => {
+    const counts = definitionCounts.get(rt.uid) || { instances: 0, conforming: 0 };
+    return {
+      ...rt,
+      instanceCount: typeCounts.get(rt.label) || 0,
+      conformance: {
+        instances: counts.instances,
+        conforming: counts.conforming,
+        rate: rate(counts.conforming, counts.instances)
+      }
+    };
+  });
 
   return {
     content: [
@@ -646,7 +1454,9 @@ export function handleGetRelationTypes(dataStore: DataStore) {
           {
             relationTypes: relationTypesWithCounts,
             count: relationTypesWithCounts.length,
-            totalRelationships: dataStore.allRelations.length
+            totalRelationships: dataStore.allRelations.length,
+            conformingRelationships: conformingTotal,
+            conformanceRate: rate(conformingTotal, dataStore.allRelations.length)
           },
           null,
           2
@@ -758,11 +1568,9 @@ export function handleGetNodeNeighborhood(
 
       // Text references (nodes that mention this node)
       if (!args.relationshipTypeFilter) {
-        for (const node of dataStore.allNodes) {
-          if (node.uid !== currentUid && node.linkedNodeUids.includes(currentUid)) {
-            if (!neighbors.has(node.uid)) {
-              neighbors.set(node.uid, { nodeUid: node.uid });
-            }
+        for (const node of dataStore.nodesReferencingUid.get(currentUid) || []) {
+          if (!neighbors.has(node.uid)) {
+            neighbors.set(node.uid, { nodeUid: node.uid });
           }
         }
       }
@@ -807,6 +1615,13 @@ export function handleGetNodeNeighborhood(
 
   const totalNodes = nodesByHop.reduce((sum, nodes) => sum + nodes.length, 0);
 
+  // Page through the nodes in BFS order (hop by hop)
+  const nodes = nodesByHop.flatMap((hopNodes, hop) => hopNodes.map(node => ({ hop, ...node })));
+  const paged = paginate(nodes, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
   return {
     content: [
       {
@@ -819,7 +1634,9 @@ export function handleGetNodeNeighborhood(
             direction: args.direction,
             totalNodes,
             hopCounts,
-            nodesByHop
+            nodes: paged.items,
+            count: paged.items.length,
+            ...paged.page
           },
           null,
           2
@@ -829,40 +1646,1480 @@ export function handleGetNodeNeighborhood(
   };
 }
 
-// ============================================================================
-// Tool Definitions for MCP Server
-// ============================================================================
+/**
+ * Handle semantic_search tool
+ * Ranks nodes by embedding similarity to a text query or to another node
+ */
+export async function handleSemanticSearch(
+  dataStore: DataStore,
+  args: z.infer<typeof SemanticSearchSchema>,
+  provider: EmbeddingProvider,
+  cache: EmbeddingCache,
+  synonyms?: SynonymTable
+) {
+  if (!args.query && !args.uid) {
+    return errorResult({ error: "Provide either a query or a uid to search by" });
+  }
 
-export const TOOL_DEFINITIONS = {
-  search_nodes: {
-    name: "search_nodes",
-    description:
-      "Search the discourse graph for research nodes by keywords. Use this when looking for specific research contributions, questions, evidence, claims, or other node types. Always include the researcher name when citing results. Use get_schema to see what node types are available in this graph.",
-    schema: SearchNodesSchema
-  },
-  get_node: {
-    name: "get_node",
-    description:
-      "Get complete details of a specific discourse node by its UID. Use this after finding a node via search to get full content, methodology context, linked nodes, and image URLs. IMPORTANT: When a node has images, display the keyImage (first/primary image) in your response using markdown syntax ![description](url) and provide a brief description/legend explaining what the figure shows.",
-    schema: GetNodeSchema
-  },
-  get_linked_nodes: {
-    name: "get_linked_nodes",
-    description:
-      "Get all nodes that are linked to/from a specific node. Use this to explore connections between nodes and trace reasoning chains through the discourse graph. Shows how different research contributions relate to each other.",
-    schema: GetLinkedNodesSchema
-  },
-  get_schema: {
-    name: "get_schema",
-    description:
-      "Get the discourse graph ontology showing node types and their meanings. Use this to understand what types of nodes exist in this particular discourse graph and what they represent. Different graphs may have different node grammars.",
-    schema: GetSchemaSchema
-  },
-  get_researcher_contributions: {
-    name: "get_researcher_contributions",
-    description:
-      "List all contributions by a specific researcher, or get statistics about all researchers in the graph. Use this for attribution and to understand who contributed what to the discourse graph.",
-    schema: GetResearcherContributionsSchema
+  let queryVector: number[] | null;
+  if (args.uid) {
+    const node = dataStore.nodesByUid.get(args.uid);
+    if (!node) {
+      return errorResult({ error: `Node not found: ${args.uid}` });
+    }
+    queryVector = await getNodeVector(provider, cache, node);
+    if (!queryVector) {
+      return errorResult({ error: `No embedding available for node ${args.uid}` });
+    }
+  } else {
+    if (!provider.canEmbedText) {
+      return errorResult({
+        error: `The ${provider.kind} embedding provider cannot embed free-text queries. Search by uid instead.`
+      });
+    }
+    queryVector = await provider.embedText(args.query!);
+  }
+
+  // Hybrid mode fuses with keyword search on the query text
+  let keywordQuery: QueryNode | null | undefined;
+  if (args.mode === "hybrid" && args.query) {
+    const parsed = parseQuery(args.query);
+    if (!parsed.ok) {
+      return errorResult({ error: "Invalid search query", query: args.query, parseError: parsed.error });
+    }
+    keywordQuery = parsed.ast;
+  }
+
+  const { results, missingVectors } = await semanticSearch(dataStore, provider, cache, {
+    queryVector,
+    excludeUid: args.uid,
+    mode: args.mode,
+    keywordQuery,
+    semanticWeight: args.semanticWeight,
+    nodeType: args.nodeType as NodeType | undefined,
+    creator: args.creator,
+    synonyms
+  });
+
+  const paged = paginate(results, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            results: paged.items,
+            count: paged.items.length,
+            ...paged.page,
+            mode: args.mode,
+            model: provider.model,
+            missingVectors
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Summarize a dataset's load metadata and store size
+ */
+function describeDataset(dataset: Dataset) {
+  return {
+    ...dataset.info,
+    nodeCount: dataset.store.allNodes.length,
+    relationCount: dataset.store.allRelations.length,
+    relationTypeCount: dataset.store.relationDefs.size,
+    creatorCount: dataset.store.allCreators.length
+  };
+}
+
+/**
+ * Handle reload_data tool
+ * Rebuilds the store from disk; the old store keeps serving if that fails
+ */
+export async function handleReloadData(
+  dataset: Dataset,
+  args: z.infer<typeof ReloadDataSchema>
+) {
+  const result = await reloadDataset(dataset, args.force);
+
+  if (result.status === "failed") {
+    return errorResult({
+      error: `Reload failed, still serving the previous data: ${result.error.message}`,
+      status: result.status,
+      dataset: describeDataset(dataset)
+    });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          { status: result.status, dataset: describeDataset(dataset) },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle get_dataset_info tool
+ * Returns load time, file hash, sizes and the last reload error (if any)
+ */
+export function handleGetDatasetInfo(dataset: Dataset) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(describeDataset(dataset), null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Handle list_datasets tool
+ * Lists every dataset served by this process with its size and load time
+ */
+export function handleListDatasets(registry: DatasetRegistry) {
+  const datasets = Array.from(registry.datasets.values()).map(dataset => ({
+    name: dataset.info.name,
+    isDefault: dataset.info.name === registry.defaultName,
+    dataPath: dataset.info.dataPath,
+    loadedAt: dataset.info.loadedAt,
+    nodeCount: dataset.store.allNodes.length,
+    relationCount: dataset.store.allRelations.length,
+    creatorCount: dataset.store.allCreators.length
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          { datasets, count: datasets.length, defaultDataset: registry.defaultName },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle find_paths tool
+ * Shortest path and top-k simple paths between two nodes
+ */
+export function handleFindPaths(
+  dataStore: DataStore,
+  args: z.infer<typeof FindPathsSchema>
+) {
+  for (const uid of [args.fromUid, args.toUid]) {
+    if (!dataStore.nodesByUid.has(uid)) {
+      return errorResult({ error: `Node not found: ${uid}` });
+    }
+  }
+
+  const paths = findPaths(
+    dataStore,
+    args.fromUid,
+    args.toUid,
+    {
+      direction: args.direction,
+      relationshipType: args.relationshipTypeFilter,
+      nodeType: args.nodeTypeFilter as NodeType | undefined
+    },
+    args.maxLength,
+    args.k
+  );
+
+  const summarize = (uid: string) => {
+    const node = dataStore.nodesByUid.get(uid)!;
+    return {
+      uid: node.uid,
+      nodeType: node.nodeType,
+      title: node.titleClean,
+      creator: node.creator
+    };
+  };
+
+  const results = paths.map(path => ({
+    length: path.edges.length,
+    nodes: path.nodes.map(summarize),
+    edges: path.edges.map(edge => ({
+      from: edge.from,
+      to: edge.to,
+      type: edge.kind === "relation" ? "typed relation" : "text reference",
+      relationshipType: edge.relationshipType,
+      direction: edge.direction
+    }))
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            from: summarize(args.fromUid),
+            to: summarize(args.toUid),
+            filters: {
+              maxLength: args.maxLength,
+              direction: args.direction,
+              nodeTypeFilter: args.nodeTypeFilter || null,
+              relationshipTypeFilter: args.relationshipTypeFilter || null
+            },
+            connected: results.length > 0,
+            shortestPath: results[0] ?? null,
+            paths: results,
+            pathCount: results.length
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle get_argument_tree tool
+ * Nested support/opposition tree behind a claim or hypothesis
+ */
+export function handleGetArgumentTree(
+  dataStore: DataStore,
+  args: z.infer<typeof GetArgumentTreeSchema>
+) {
+  if (!dataStore.nodesByUid.has(args.uid)) {
+    return errorResult({ error: `Node not found: ${args.uid}` });
+  }
+
+  const tree = buildArgumentTree(dataStore, args.uid, args.maxDepth);
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            root: tree.root,
+            summary: {
+              ...tree.root.tally,
+              evidenceCount: tree.evidenceCount,
+              nodeCount: tree.nodeCount,
+              cycleCount: tree.cycleCount,
+              truncated: tree.truncated
+            }
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle find_conflicts tool
+ * Ranked contradictions, support cycles and opposed supporters
+ */
+export function handleFindConflicts(
+  dataStore: DataStore,
+  args: z.infer<typeof FindConflictsSchema>
+) {
+  const report = findConflicts(dataStore, [args.kind]);
+  const paged = paginate(report[args.kind], args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const summarize = (uid: string) => {
+    const node = dataStore.nodesByUid.get(uid)!;
+    return {
+      uid: node.uid,
+      nodeType: node.nodeType,
+      title: node.titleClean,
+      creator: node.creator
+    };
+  };
+
+  const describe = (conflicts: Conflict[]) =>
+    conflicts.map(conflict => ({
+      nodes: conflict.nodeUids.map(summarize),
+      sides: conflict.sides.map(side => ({
+        claimUid: side.claimUid,
+        stance: side.stance,
+        count: side.nodeUids.length,
+        nodes: side.nodeUids.map(summarize)
+      })),
+      ...(conflict.kind === "circular"
+        ? { cycleSize: conflict.balance, externalSupport: conflict.total }
+        : { evidenceOnWeakerSide: conflict.balance, totalEvidence: conflict.total })
+    }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            kind: args.kind,
+            conflicts: describe(paged.items),
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle find_gaps tool
+ * Nodes missing relations their type normally participates in
+ */
+export function handleFindGaps(
+  dataStore: DataStore,
+  args: z.infer<typeof FindGapsSchema>
+) {
+  const gaps = findGaps(dataStore, {
+    direction: args.direction,
+    nodeType: args.nodeType as NodeType | undefined,
+    creator: args.creator,
+    minAgeDays: args.minAgeDays,
+    maxAgeDays: args.maxAgeDays
+  });
+
+  const describeExpectation = (expectation: RelationExpectation) =>
+    expectation.direction === "incoming"
+      ? `no ${expectation.relationTypes.join("/")} from ${expectation.counterpartLabel}`
+      : `no ${expectation.relationTypes.join("/")} to ${expectation.counterpartLabel}`;
+
+  // Count of nodes per missing expectation, over all gaps
+  const summary = new Map<string, { nodeType: NodeType; missing: string; count: number }>();
+  for (const gap of gaps) {
+    for (const expectation of gap.missing) {
+      const missing = describeExpectation(expectation);
+      const key = `${expectation.nodeType}\u0000${missing}`;
+      const entry = summary.get(key) || { nodeType: expectation.nodeType, missing, count: 0 };
+      entry.count++;
+      summary.set(key, entry);
+    }
+  }
+
+  const paged = paginate(gaps, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const results = paged.items.map(gap => ({
+    uid: gap.node.uid,
+    nodeType: gap.node.nodeType,
+    title: gap.node.titleClean,
+    creator: gap.node.creator,
+    created: gap.node.created,
+    ageDays: gap.ageDays,
+    missing: gap.missing.map(expectation => ({
+      description: describeExpectation(expectation),
+      direction: expectation.direction,
+      relationTypes: expectation.relationTypes,
+      counterpartType: expectation.counterpartType
+    }))
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            gaps: results,
+            count: results.length,
+            ...paged.page,
+            summary: Array.from(summary.values()).sort((a, b) => b.count - a.count)
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Round a metric value for display
+ */
+function roundMetric(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+/**
+ * Node metrics as returned by tools
+ */
+function describeNodeMetrics(metrics: GraphMetrics, uid: string) {
+  const node = metrics.nodes.get(uid);
+  if (!node) return null;
+  return {
+    inDegree: node.inDegree,
+    outDegree: node.outDegree,
+    pageRank: roundMetric(node.pageRank),
+    betweenness: roundMetric(node.betweenness),
+    componentId: node.componentId,
+    componentSize: metrics.components[node.componentId].size,
+    ranks: node.ranks,
+    rankedOutOf: metrics.nodeCount
+  };
+}
+
+/**
+ * Handle get_graph_metrics tool
+ * Centrality and connectivity for one node, or top nodes by a metric
+ */
+export function handleGetGraphMetrics(
+  dataStore: DataStore,
+  args: z.infer<typeof GetGraphMetricsSchema>
+) {
+  const metrics = getGraphMetrics(dataStore);
+  const graph = {
+    nodeCount: metrics.nodeCount,
+    edgeCount: metrics.edgeCount,
+    componentCount: metrics.components.length,
+    largestComponents: metrics.components.slice(0, 5).map(c => ({ id: c.id, size: c.size })),
+    betweennessSampled: metrics.betweennessSampled,
+    computeMs: metrics.durationMs
+  };
+
+  if (args.uid) {
+    const node = dataStore.nodesByUid.get(args.uid);
+    if (!node) {
+      return errorResult({ error: `Node not found: ${args.uid}` });
+    }
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(
+            {
+              uid: node.uid,
+              nodeType: node.nodeType,
+              title: node.titleClean,
+              creator: node.creator,
+              metrics: describeNodeMetrics(metrics, node.uid),
+              graph
+            },
+            null,
+            2
+          )
+        }
+      ]
+    };
+  }
+
+  const ranked = dataStore.allNodes
+    .filter(node => !args.nodeType || node.nodeType === args.nodeType)
+    .sort((a, b) =>
+      metrics.nodes.get(a.uid)!.ranks[args.metric] - metrics.nodes.get(b.uid)!.ranks[args.metric]
+    );
+
+  const paged = paginate(ranked, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const results = paged.items.map(node => ({
+    uid: node.uid,
+    nodeType: node.nodeType,
+    title: node.titleClean,
+    creator: node.creator,
+    ...describeNodeMetrics(metrics, node.uid)
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            metric: args.metric,
+            nodes: results,
+            count: results.length,
+            ...paged.page,
+            graph
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Most frequent values, with counts
+ */
+function topCounts(values: string[], limit: number): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
+
+/**
+ * Handle get_clusters tool
+ * Research threads found by community detection
+ */
+export function handleGetClusters(
+  dataStore: DataStore,
+  args: z.infer<typeof GetClustersSchema>
+) {
+  if (args.aroundUid && !dataStore.nodesByUid.has(args.aroundUid)) {
+    return errorResult({ error: `Node not found: ${args.aroundUid}` });
+  }
+
+  const clustering = args.aroundUid
+    ? getClustersAround(dataStore, args.aroundUid, args.depth)
+    : getClusters(dataStore);
+  const shown = clustering.clusters.filter(cluster => cluster.uids.length >= args.minSize);
+
+  const paged = paginate(shown, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const metrics = getGraphMetrics(dataStore);
+  const clusters = paged.items.map(cluster => {
+    const members = cluster.uids.map(uid => dataStore.nodesByUid.get(uid)!);
+    const byCentrality = [...members].sort(
+      (a, b) => metrics.nodes.get(a.uid)!.ranks.pageRank - metrics.nodes.get(b.uid)!.ranks.pageRank
+    );
+    return {
+      id: cluster.id,
+      size: members.length,
+      dominantNodeTypes: topCounts(members.map(node => node.nodeType || "untyped"), 3).map(
+        ({ value, count }) => ({ nodeType: value, count })
+      ),
+      mainContributors: topCounts(members.map(node => node.creator), 3).map(
+        ({ value, count }) => ({ creator: value, count })
+      ),
+      representativeNodes: byCentrality.slice(0, 5).map(node => ({
+        uid: node.uid,
+        nodeType: node.nodeType,
+        title: node.titleClean,
+        creator: node.creator
+      })),
+      memberUids: cluster.uids
+    };
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            scope: args.aroundUid ? { aroundUid: args.aroundUid, depth: args.depth } : "whole graph",
+            nodeCount: clustering.nodeCount,
+            edgeCount: clustering.edgeCount,
+            modularity: roundMetric(clustering.modularity),
+            clusterCount: clustering.clusters.length,
+            smallClusterCount: clustering.clusters.length - shown.length,
+            clusters,
+            count: clusters.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle get_backlinks tool
+ * Nodes that mention a node in their text, with the surrounding passage
+ */
+export function handleGetBacklinks(
+  dataStore: DataStore,
+  args: z.infer<typeof GetBacklinksSchema>
+) {
+  const node = dataStore.nodesByUid.get(args.uid);
+  if (!node) {
+    return errorResult({ error: `Node not found: ${args.uid}` });
+  }
+
+  const backlinks = findBacklinks(dataStore, args.uid, args.contextChars);
+  const paged = paginate(backlinks, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            uid: node.uid,
+            title: node.titleClean,
+            backlinks: paged.items.map(backlink => ({
+              uid: backlink.node.uid,
+              nodeType: backlink.node.nodeType,
+              title: backlink.node.titleClean,
+              creator: backlink.node.creator,
+              modified: backlink.node.modified,
+              snippet: backlink.snippet,
+              alsoRelated: backlink.alsoRelated
+            })),
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle validate_graph tool
+ * Integrity report: dangling links, unknown predicates, schema violations
+ */
+export function handleValidateGraph(
+  dataStore: DataStore,
+  args: z.infer<typeof ValidateGraphSchema>
+) {
+  const report = validateGraph(dataStore, args.kinds);
+  const listed =
+    args.severity === "all"
+      ? report.issues
+      : report.issues.filter(issue => issue.severity === args.severity);
+
+  const paged = paginate(listed, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            valid: report.valid,
+            errorCount: report.errorCount,
+            warningCount: report.warningCount,
+            counts: report.counts,
+            nodeCount: report.nodeCount,
+            relationCount: report.relationCount,
+            issues: paged.items,
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle find_nonconforming_relations tool
+ * Relations whose endpoint types don't match the relation definition
+ */
+export function handleFindNonconformingRelations(
+  dataStore: DataStore,
+  args: z.infer<typeof FindNonconformingRelationsSchema>
+) {
+  let relations = dataStore.allRelations.filter(r => !r.conformsToSchema);
+  if (args.relationshipType) {
+    const typeFilter = args.relationshipType.toLowerCase();
+    relations = relations.filter(r => r.label.toLowerCase() === typeFilter);
+  }
+  if (args.nodeType) {
+    relations = relations.filter(r => r.sourceType === args.nodeType || r.destinationType === args.nodeType);
+  }
+
+  // Why each relation fails, in the order a reviewer would fix them
+  const problemsOf = (r: RelationInstance): string[] => {
+    const problems: string[] = [];
+    if (!dataStore.relationDefs.has(r.predicateUid)) problems.push("unknownPredicate");
+    if (!dataStore.nodesByUid.has(r.sourceUid)) {
+      problems.push("missingSource");
+    } else if (r.expectedSourceType !== null && r.sourceType !== r.expectedSourceType) {
+      problems.push("sourceType");
+    }
+    if (!dataStore.nodesByUid.has(r.destinationUid)) {
+      problems.push("missingDestination");
+    } else if (r.expectedDestinationType !== null && r.destinationType !== r.expectedDestinationType) {
+      problems.push("destinationType");
+    }
+    return problems;
+  };
+
+  // Tally mismatch patterns (e.g., Supports expects EVD -> CLM, found CLM -> CLM)
+  const patterns = new Map<
+    string,
+    { relationshipType: string; expected: string; actual: string; count: number }
+  >();
+  for (const r of relations) {
+    const expected = `${r.expectedSourceType ?? "any"} -> ${r.expectedDestinationType ?? "any"}`;
+    const actual = `${r.sourceType ?? "untyped"} -> ${r.destinationType ?? "untyped"}`;
+    const key = `${r.label}\u0000${expected}\u0000${actual}`;
+    const pattern = patterns.get(key) || { relationshipType: r.label, expected, actual, count: 0 };
+    pattern.count++;
+    patterns.set(key, pattern);
+  }
+
+  const paged = paginate(relations, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const endpoint = (uid: string, actualType: NodeType | null, expectedType: NodeType | null) => {
+    const node = dataStore.nodesByUid.get(uid);
+    return {
+      uid,
+      title: node ? node.titleClean : "Unknown",
+      nodeType: actualType,
+      expectedType
+    };
+  };
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            nonconformingCount: relations.length,
+            totalRelationships: dataStore.allRelations.length,
+            patterns: Array.from(patterns.values()).sort((a, b) => b.count - a.count),
+            relationships: paged.items.map(r => ({
+              source: endpoint(r.sourceUid, r.sourceType, r.expectedSourceType),
+              destination: endpoint(r.destinationUid, r.destinationType, r.expectedDestinationType),
+              relationshipType: r.label,
+              predicateUid: r.predicateUid,
+              problems: problemsOf(r)
+            })),
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Write a prepared entry and report the outcome
+ * Shared by create_node and create_relation.
+ */
+async function persistEntry<T extends RawGraphEntry>(
+  dataset: Dataset,
+  prepared: PreparedEntry<T>,
+  describe: (store: DataStore, uid: string, entry: T) => Record<string, unknown>
+) {
+  if (!dataset.writer) {
+    return errorResult({
+      error: `Dataset '${dataset.info.name}' is read-only. Configure an overlay file (OVERLAY_PATH, or "overlay" in DATASETS_CONFIG) to enable writes.`
+    });
+  }
+  if (!prepared.ok) {
+    return errorResult({ error: prepared.error, ...prepared.details });
+  }
+
+  const result = await writeToDataset(dataset, [prepared.entry]);
+  if (result.status === "failed") {
+    return errorResult({
+      error: `Saved to ${dataset.writer.location}, but reloading failed: ${result.error.message}`,
+      uid: prepared.uid
+    });
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            created: describe(dataset.store, prepared.uid, prepared.entry),
+            savedTo: { backend: dataset.writer.kind, location: dataset.writer.location }
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle create_node tool
+ * Adds a node after checking its type against the node schemas
+ */
+export async function handleCreateNode(
+  dataset: Dataset,
+  args: z.infer<typeof CreateNodeSchema>
+) {
+  const prepared = prepareNode(dataset.store, dataset.titleGrammar, args);
+  return persistEntry(dataset, prepared, (store, uid) => {
+    const node = store.nodesByUid.get(uid)!;
+    return {
+      uid: node.uid,
+      nodeType: node.nodeType,
+      title: node.title,
+      creator: node.creator,
+      created: node.created,
+      modified: node.modified
+    };
+  });
+}
+
+/**
+ * Handle create_relation tool
+ * Adds a typed relation after checking it against the relation definitions
+ */
+export async function handleCreateRelation(
+  dataset: Dataset,
+  args: z.infer<typeof CreateRelationSchema>
+) {
+  const prepared = prepareRelation(dataset.store, {
+    relationType: args.relationshipType,
+    sourceUid: args.sourceUid,
+    destinationUid: args.destinationUid,
+    creator: args.creator
+  });
+  return persistEntry(dataset, prepared, (store, uid, entry) => {
+    const relation = (store.relationsBySource.get(args.sourceUid) || []).find(
+      r => r.destinationUid === args.destinationUid && `pages:${r.predicateUid}` === entry.predicate
+    );
+    return {
+      uid,
+      relationshipType: relation?.label,
+      predicateUid: relation?.predicateUid,
+      source: { uid: args.sourceUid, title: store.nodesByUid.get(args.sourceUid)?.titleClean },
+      destination: { uid: args.destinationUid, title: store.nodesByUid.get(args.destinationUid)?.titleClean },
+      creator: entry.creator,
+      created: entry.created
+    };
+  });
+}
+
+/**
+ * Error for draft tools on datasets without a drafts file
+ */
+function noDraftsResult(dataset: Dataset) {
+  return errorResult({
+    error: `Dataset '${dataset.info.name}' has no drafts file. Configure one (DRAFTS_PATH, or "drafts" in DATASETS_CONFIG) to propose changes.`
+  });
+}
+
+/**
+ * Short description of a draft for listings
+ * Titles are looked up in the draft view, so proposed nodes resolve too.
+ */
+function summarizeDraft(draft: Draft, view: DataStore) {
+  const title = (uid: string) => view.nodesByUid.get(uid)?.titleClean ?? null;
+  let change: Record<string, unknown>;
+  if (draft.kind === "relation") {
+    const entry = draft.entry as RawRelationInstance;
+    const [sourceUid, destinationUid] = draftDependencies(draft);
+    const predicateUid = entry.predicate.replace(/^pages:/, "");
+    change = {
+      relationshipType: view.relationDefs.get(predicateUid)?.label ?? predicateUid,
+      source: { uid: sourceUid, title: title(sourceUid) },
+      destination: { uid: destinationUid, title: title(destinationUid) }
+    };
+  } else {
+    const entry = draft.entry as RawJsonLdNode;
+    change = { title: entry.title };
+  }
+
+  return {
+    id: draft.id,
+    kind: draft.kind,
+    status: draft.status,
+    uid: draft.uid,
+    ...change,
+    proposedBy: draft.proposedBy,
+    proposedAt: draft.proposedAt,
+    note: draft.note,
+    reviewedAt: draft.reviewedAt,
+    reviewNote: draft.reviewNote
+  };
+}
+
+/**
+ * What a draft changes, in reviewable form
+ *
+ * Edits are diffed against the node as it was when proposed; `stale` marks
+ * edits whose node has changed in the graph since.
+ */
+function diffDraft(draft: Draft, served: DataStore, view: DataStore) {
+  const summary = summarizeDraft(draft, view);
+  if (draft.kind === "node") {
+    const entry = draft.entry as RawJsonLdNode;
+    return {
+      ...summary,
+      nodeType: view.nodesByUid.get(draft.uid)?.nodeType ?? null,
+      content: entry.content
+    };
+  }
+  if (draft.kind === "relation") {
+    const entry = draft.entry as RawRelationInstance;
+    const [sourceUid, destinationUid] = draftDependencies(draft);
+    const relation = (view.relationsBySource.get(sourceUid) || []).find(
+      r => r.destinationUid === destinationUid && `pages:${r.predicateUid}` === entry.predicate
+    );
+    return { ...summary, conformsToSchema: relation?.conformsToSchema ?? null };
+  }
+
+  const entry = draft.entry as RawJsonLdNode;
+  const base = draft.base!;
+  const current = served.nodesByUid.get(draft.uid);
+  return {
+    ...summary,
+    titleChange: entry.title === base.title ? undefined : { before: base.title, after: entry.title },
+    contentDiff: unifiedDiff(base.content, entry.content) || null,
+    stale: current !== undefined && current.modified !== base.modified
+  };
+}
+
+/**
+ * Store a prepared entry as a pending draft and report it
+ * Shared by propose_node, propose_relation and propose_edit.
+ */
+async function proposeDraft(
+  dataset: Dataset,
+  kind: DraftKind,
+  prepared: PreparedEntry<RawJsonLdNode | RawRelationInstance>,
+  proposedBy: string,
+  note: string | undefined,
+  base?: Draft["base"]
+) {
+  if (!dataset.drafts) {
+    return noDraftsResult(dataset);
+  }
+  if (!prepared.ok) {
+    return errorResult({ error: prepared.error, ...prepared.details });
+  }
+
+  const draft = await dataset.drafts.propose({
+    kind,
+    uid: prepared.uid,
+    entry: prepared.entry,
+    base,
+    proposedBy,
+    proposedAt: new Date().toISOString(),
+    note
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            proposed: diffDraft(draft, dataset.store, draftView(dataset)),
+            savedTo: dataset.drafts.location
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle propose_node tool
+ * Checked like create_node, against the graph plus the open drafts
+ */
+export async function handleProposeNode(
+  dataset: Dataset,
+  args: z.infer<typeof ProposeNodeSchema>
+) {
+  const prepared = prepareNode(draftView(dataset), dataset.titleGrammar, args);
+  return proposeDraft(dataset, "node", prepared, args.creator, args.note);
+}
+
+/**
+ * Handle propose_relation tool
+ * Checked like create_relation; endpoints may be proposed nodes
+ */
+export async function handleProposeRelation(
+  dataset: Dataset,
+  args: z.infer<typeof ProposeRelationSchema>
+) {
+  const prepared = prepareRelation(draftView(dataset), {
+    relationType: args.relationshipType,
+    sourceUid: args.sourceUid,
+    destinationUid: args.destinationUid,
+    creator: args.creator
+  });
+  return proposeDraft(dataset, "relation", prepared, args.creator, args.note);
+}
+
+/**
+ * Handle propose_edit tool
+ * Proposes a new title and/or content for a node
+ */
+export async function handleProposeEdit(
+  dataset: Dataset,
+  args: z.infer<typeof ProposeEditSchema>
+) {
+  const view = draftView(dataset);
+  const node = view.nodesByUid.get(args.uid);
+  const prepared = prepareEdit(view, dataset.titleGrammar, args);
+  const base = node && { title: node.title, content: node.content, modified: node.modified };
+  return proposeDraft(dataset, "edit", prepared, args.proposedBy, args.note, base);
+}
+
+/**
+ * Handle list_drafts tool
+ * Proposed changes by status, oldest first, with per-status counts
+ */
+export function handleListDrafts(
+  dataset: Dataset,
+  args: z.infer<typeof ListDraftsSchema>
+) {
+  if (!dataset.drafts) {
+    return noDraftsResult(dataset);
+  }
+
+  const all = dataset.drafts.list();
+  const proposedBy = args.proposedBy?.toLowerCase();
+  const drafts = all.filter(
+    draft =>
+      (args.status === "all" || draft.status === args.status) &&
+      (!args.kind || draft.kind === args.kind) &&
+      (!proposedBy || draft.proposedBy.toLowerCase().includes(proposedBy))
+  );
+  const paged = paginate(drafts, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const view = draftView(dataset);
+  const statusCounts = { pending: 0, accepted: 0, rejected: 0 };
+  for (const draft of all) statusCounts[draft.status]++;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            statusCounts,
+            drafts: paged.items.map(draft => summarizeDraft(draft, view)),
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle diff_drafts tool
+ * Full proposed content, relation endpoints and content diffs for edits
+ */
+export function handleDiffDrafts(
+  dataset: Dataset,
+  args: z.infer<typeof DiffDraftsSchema>
+) {
+  if (!dataset.drafts) {
+    return noDraftsResult(dataset);
+  }
+
+  const all = dataset.drafts.list();
+  let drafts: Draft[];
+  if (args.ids) {
+    const unknown = args.ids.filter(id => !all.some(draft => draft.id === id));
+    if (unknown.length > 0) {
+      return errorResult({ error: `Unknown draft IDs: ${unknown.join(", ")}` });
+    }
+    drafts = all.filter(draft => args.ids!.includes(draft.id));
+  } else {
+    drafts = all.filter(draft => args.status === "all" || draft.status === args.status);
+  }
+
+  const paged = paginate(drafts, args, queryFingerprint(args));
+  if (!paged.ok) {
+    return errorResult({ error: paged.error });
+  }
+
+  const view = draftView(dataset);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            diffs: paged.items.map(draft => diffDraft(draft, dataset.store, view)),
+            count: paged.items.length,
+            ...paged.page
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle review_drafts tool
+ * Accepts or rejects drafts and reports drafts left dangling
+ */
+export async function handleReviewDrafts(
+  dataset: Dataset,
+  args: z.infer<typeof ReviewDraftsSchema>
+) {
+  if (!dataset.drafts) {
+    return noDraftsResult(dataset);
+  }
+
+  if (args.decision === "accept") {
+    const blocked = unacceptableDrafts(dataset.drafts.list(), args.ids, dataset.store);
+    if (blocked.length > 0) {
+      return errorResult({
+        error: "Cannot accept drafts that rely on nodes which are neither in the graph nor pending or accepted drafts; nothing was accepted",
+        blocked: blocked.map(({ draft, missingUids }) => ({ id: draft.id, kind: draft.kind, missingUids }))
+      });
+    }
+  }
+
+  let reviewed: Draft[];
+  try {
+    reviewed = await dataset.drafts.review(
+      args.ids,
+      args.decision === "accept" ? "accepted" : "rejected",
+      args.note
+    );
+  } catch (error) {
+    return errorResult({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const view = draftView(dataset);
+  const unresolved = unresolvedDrafts(dataset.drafts.list(), dataset.store);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            reviewed: reviewed.map(draft => summarizeDraft(draft, view)),
+            unresolved: unresolved.map(({ draft, missingUids }) => ({
+              id: draft.id,
+              kind: draft.kind,
+              status: draft.status,
+              missingUids
+            }))
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle export_drafts tool
+ * The accepted drafts as a JSON-LD @graph fragment
+ */
+export function handleExportDrafts(dataset: Dataset) {
+  if (!dataset.drafts) {
+    return noDraftsResult(dataset);
+  }
+
+  const drafts = dataset.drafts.list();
+  const exported = exportableDrafts(drafts, dataset.store);
+  const unresolved = unresolvedDrafts(drafts, dataset.store).filter(({ draft }) => draft.status === "accepted");
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            draftIds: exported.map(draft => draft.id),
+            unresolved: unresolved.map(({ draft, missingUids }) => ({
+              id: draft.id,
+              kind: draft.kind,
+              missingUids
+            })),
+            document: exportAcceptedDrafts(drafts, dataset.store, dataset.info.name)
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle diff_snapshots tool
+ * Compares two exports from the dataset's history (or one with the served data)
+ */
+export async function handleDiffSnapshots(
+  dataset: Dataset,
+  args: z.infer<typeof DiffSnapshotsSchema>
+) {
+  const { historyDir, dataPath } = dataset.info;
+  if (!historyDir) {
+    return errorResult({
+      error: `Dataset '${dataset.info.name}' has no history directory. Configure one (HISTORY_DIR, or "history" in DATASETS_CONFIG) to compare exports.`
+    });
+  }
+
+  const snapshots = listSnapshots(historyDir);
+  const unknown = (name: string) =>
+    errorResult({
+      error: `Unknown snapshot: ${name} (the served export is "current")`,
+      availableSnapshots: snapshots
+        .filter(snapshot => !isServedExport(snapshot, dataPath))
+        .map(({ name, date }) => ({ name, date }))
+    });
+
+  let to: Snapshot | null = null;
+  if (args.to !== "current") {
+    const found = findSnapshot(snapshots, args.to, dataPath);
+    if (!found) return unknown(args.to);
+    to = found;
+  }
+  const toDate = to ? to.date : snapshotDate(dataPath);
+
+  const from = args.from
+    ? findSnapshot(snapshots, args.from, dataPath)
+    : snapshotBefore(snapshots, toDate, dataPath);
+  if (!from) {
+    return args.from
+      ? unknown(args.from)
+      : errorResult({ error: `No export in ${historyDir} is older than ${toDate}` });
+  }
+
+  let before: DataStore;
+  let after: DataStore;
+  try {
+    before = await loadSnapshot(dataset, from);
+    after = to ? await loadSnapshot(dataset, to) : dataset.store;
+  } catch (error) {
+    return errorResult({
+      error: `Failed to load snapshot: ${error instanceof Error ? error.message : String(error)}`
+    });
+  }
+
+  const diff = diffSnapshots(before, after);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            from: { name: from.name, date: from.date },
+            to: to ? { name: to.name, date: to.date } : { name: "current", date: toDate },
+            ...summarizeSnapshotDiff(diff, before, after, { limit: args.limit, contentDiffs: args.contentDiffs })
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+/**
+ * Handle export_subgraph tool
+ * Returns a summary followed by the document in the requested format.
+ */
+export function handleExportSubgraph(
+  dataStore: DataStore,
+  args: z.infer<typeof ExportSubgraphSchema>,
+  name: string,
+  synonyms?: SynonymTable
+) {
+  const selected = selectSubgraph(
+    dataStore,
+    {
+      uids: args.uids,
+      query: args.query,
+      queryLimit: args.queryLimit,
+      around: args.around,
+      depth: args.depth,
+      direction: args.direction,
+      relationshipType: args.relationshipTypeFilter,
+      textReferences: args.textReferences,
+      maxNodes: args.maxNodes
+    },
+    synonyms
+  );
+  if (!selected.ok) {
+    return errorResult({ error: selected.error, ...selected.details });
+  }
+
+  const { subgraph } = selected;
+  if (subgraph.nodes.length === 0) {
+    return errorResult({ error: "No nodes matched the seeds", missingUids: subgraph.missingUids });
+  }
+
+  const summary = {
+    format: args.format,
+    nodeCount: subgraph.nodes.length,
+    edgeCount: subgraph.edges.length,
+    relationEdges: subgraph.edges.filter(edge => edge.kind === "relation").length,
+    textReferenceEdges: subgraph.edges.filter(edge => edge.kind === "textReference").length,
+    droppedNodes: subgraph.droppedNodes,
+    missingUids: subgraph.missingUids
+  };
+  return {
+    content: [
+      { type: "text" as const, text: JSON.stringify(summary, null, 2) },
+      { type: "text" as const, text: formatSubgraph(subgraph, args.format, name) }
+    ]
+  };
+}
+
+/**
+ * Handle get_node_history tool
+ * Lists a node's versions across the dataset's exports.
+ */
+export async function handleGetNodeHistory(
+  dataset: Dataset,
+  args: z.infer<typeof GetNodeHistorySchema>
+) {
+  const { historyDir } = dataset.info;
+  if (!historyDir) {
+    return errorResult({
+      error: `Dataset '${dataset.info.name}' has no history directory. Configure one (HISTORY_DIR, or "history" in DATASETS_CONFIG) to trace nodes across exports.`
+    });
+  }
+
+  const versions = datasetVersions(dataset, historyDir);
+  let history: NodeVersion[];
+  try {
+    history = await nodeHistory(dataset, versions, args.uid);
+  } catch (error) {
+    return errorResult({
+      error: `Failed to load snapshot: ${error instanceof Error ? error.message : String(error)}`
+    });
+  }
+  if (history.length === 0) {
+    return errorResult({ error: `Node not found in any export: ${args.uid}`, exportsSearched: versions.length });
+  }
+
+  let last = history[0].node!;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            uid: args.uid,
+            exportsSearched: versions.length,
+            versionCount: history.length,
+            versions: history.map((version, index) => {
+              const { node } = version;
+              const before = last;
+              if (node) last = node;
+              return {
+                change: version.change,
+                firstExport: version.firstExport,
+                lastExport: version.lastExport,
+                exportCount: version.exportCount,
+                ...(node
+                  ? {
+                      title: node.titleClean,
+                      nodeType: node.nodeType,
+                      creator: node.creator,
+                      created: node.created,
+                      modified: node.modified,
+                      relationCount: version.relations.length
+                    }
+                  : {}),
+                ...(index === 0 ? { content: node!.content, relations: version.relations } : {}),
+                ...(index > 0 ? { changed: version.changed } : {}),
+                ...(node && version.changed.includes("title")
+                  ? { titleChange: { before: before.title, after: node.title } }
+                  : {}),
+                ...(node && version.changed.includes("nodeType")
+                  ? { nodeTypeChange: { before: before.nodeType, after: node.nodeType } }
+                  : {}),
+                ...(node && version.changed.includes("creator")
+                  ? { creatorChange: { before: before.creator, after: node.creator } }
+                  : {}),
+                ...(args.contentDiffs && version.contentDiff ? { contentDiff: version.contentDiff } : {}),
+                ...(version.addedRelations.length > 0 ? { addedRelations: version.addedRelations } : {}),
+                ...(version.removedRelations.length > 0 ? { removedRelations: version.removedRelations } : {})
+              };
+            })
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+// ============================================================================
+// Tool Definitions for MCP Server
+// ============================================================================
+
+export const TOOL_DEFINITIONS = {
+  search_nodes: {
+    name: "search_nodes",
+    description:
+      "Search the discourse graph for research nodes by keywords. Results are ranked by relevance by default, and each result carries a BM25 'score' so strong matches can be told apart from weak ones. When searching all datasets, each dataset's scores are divided by its best score (0-1) so they can be merged. Use this when looking for specific research contributions, questions, evidence, claims, or other node types. Always include the researcher name when citing results. Use get_schema to see what node types are available in this graph. Results are paginated: pass nextCursor back as cursor to fetch the next page.",
+    schema: SearchNodesSchema
+  },
+  get_node: {
+    name: "get_node",
+    description:
+      "Get complete details of a specific discourse node by its UID. Use this after finding a node via search to get full content, methodology context, linked nodes, and image URLs. IMPORTANT: When a node has images, display the keyImage (first/primary image) in your response using markdown syntax ![description](url) and provide a brief description/legend explaining what the figure shows.",
+    schema: GetNodeSchema
+  },
+  get_linked_nodes: {
+    name: "get_linked_nodes",
+    description:
+      "Get all nodes that are linked to/from a specific node. Use this to explore connections between nodes and trace reasoning chains through the discourse graph. Shows how different research contributions relate to each other. Results are paginated (totalCount, nextCursor).",
+    schema: GetLinkedNodesSchema
+  },
+  get_schema: {
+    name: "get_schema",
+    description:
+      "Get the discourse graph ontology showing node types and their meanings. Use this to understand what types of nodes exist in this particular discourse graph and what they represent. Different graphs may have different node grammars. Also reports nodes whose titles match no title grammar pattern.",
+    schema: GetSchemaSchema
+  },
+  get_researcher_contributions: {
+    name: "get_researcher_contributions",
+    description:
+      "List all contributions by a specific researcher, or get statistics about all researchers in the graph. Use this for attribution and to understand who contributed what to the discourse graph. Results are paginated (totalCount, nextCursor).",
+    schema: GetResearcherContributionsSchema
   },
   get_node_images: {
     name: "get_node_images",
@@ -873,19 +3130,169 @@ export const TOOL_DEFINITIONS = {
   get_relationships: {
     name: "get_relationships",
     description:
-      "Query typed relationships between nodes (e.g., Evidence 'Supports' Claim, Result 'Informs' Question). Use this to explore how nodes are semantically connected with labeled relationship types. Can filter by source node, destination node, or relationship type.",
+      "Query typed relationships between nodes (e.g., Evidence 'Supports' Claim, Result 'Informs' Question). Use this to explore how nodes are semantically connected with labeled relationship types. Can filter by source node, destination node, or relationship type. Results are paginated (totalCount, nextCursor).",
     schema: GetRelationshipsSchema
   },
   get_relation_types: {
     name: "get_relation_types",
     description:
-      "List all available relationship type definitions in the discourse graph (e.g., Supports, Informs, Opposes). Shows what types of semantic connections exist between nodes and how many instances of each type are present.",
+      "List all available relationship type definitions in the discourse graph (e.g., Supports, Informs, Opposes). Shows what types of semantic connections exist between nodes, how many instances of each type are present, and what share of each definition's instances connect the node types its domain and range declare (conformance).",
     schema: GetRelationTypesSchema
   },
   get_node_neighborhood: {
     name: "get_node_neighborhood",
     description:
-      "Get the K-hop neighborhood around a node. Performs breadth-first traversal to find all nodes within N hops (1-4) of the starting node. Results are organized by hop distance. Use this to explore the local context around a research contribution or to find multi-hop reasoning chains. Supports filtering by node type and relationship type, and can traverse in any direction.",
+      "Get the K-hop neighborhood around a node. Performs breadth-first traversal to find all nodes within N hops (1-4) of the starting node. Nodes are listed in BFS order, each with its hop distance, and hopCounts/totalNodes cover the whole neighborhood. Results are paginated: pass nextCursor back as cursor to fetch the next page. Use this to explore the local context around a research contribution or to find multi-hop reasoning chains. Supports filtering by node type and relationship type, and can traverse in any direction.",
     schema: GetNodeNeighborhoodSchema
+  },
+  semantic_search: {
+    name: "semantic_search",
+    description:
+      "Find nodes by meaning rather than exact keywords, using embedding similarity. Use this when a question uses different vocabulary than the nodes (e.g., 'which results are about force generation at the membrane'), or pass a uid to find nodes similar to a given node. Use mode 'hybrid' to combine similarity with keyword matching. Always include the researcher name when citing results.",
+    schema: SemanticSearchSchema
+  },
+  reload_data: {
+    name: "reload_data",
+    description:
+      "Reload the discourse graph from its data file, e.g. after a fresh Roam export. The new data is only swapped in if it parses successfully; otherwise the previous data keeps serving and the error is reported. The file is also watched and reloaded automatically.",
+    schema: ReloadDataSchema
+  },
+  get_dataset_info: {
+    name: "get_dataset_info",
+    description:
+      "Get information about the loaded dataset: data file path, when it was loaded, its sha256 hash, whether it came from the index cache, node and relationship counts, and the last reload error if a reload failed. Use this to check how fresh the data is.",
+    schema: GetDatasetInfoSchema
+  },
+  list_datasets: {
+    name: "list_datasets",
+    description:
+      "List the discourse graph datasets served by this server, with node counts and which one is the default. Every tool takes an optional 'dataset' argument to pick one; search_nodes searches all datasets when none is given.",
+    schema: ListDatasetsSchema
+  },
+  find_paths: {
+    name: "find_paths",
+    description:
+      "Find how two nodes are connected: returns the shortest path and up to k simple paths (no repeated nodes) between two UIDs, shortest first, up to a maximum length. Each edge is labeled as a typed relation (with its relationship type, e.g. Supports) or a text reference, and whether it was followed along or against its direction. Use this to trace how a piece of evidence connects to a hypothesis instead of chaining neighborhood calls.",
+    schema: FindPathsSchema
+  },
+  get_argument_tree: {
+    name: "get_argument_tree",
+    description:
+      "Explain why the graph believes a claim or hypothesis. Walks Supports, Opposes and Informs relations backwards from the node down to the evidence (EVD) and results (RES) behind it, returning a nested tree. Each node has its stance toward the root (opposing an opponent counts as support), a tally of supporting vs opposing evidence in its branch, and leaves carry provenance (creator, date, cited SRC sources). Cycles are detected and marked. Always cite the researchers who created the evidence.",
+    schema: GetArgumentTreeSchema
+  },
+  find_conflicts: {
+    name: "find_conflicts",
+    description:
+      "Find where the discourse graph disagrees with itself, to prioritize discussion. Reports contested claims (both supporting and opposing relations), circular support (nodes that support each other in a loop), and opposed pairs whose sides both have supporters. Contested claims and opposed pairs are ranked by the evidence on the weaker side, then total evidence; cycles by size. Lists one kind per call (most significant first); results are paginated: pass nextCursor back as cursor to fetch the next page. Always attribute the conflicting nodes to their creators.",
+    schema: FindConflictsSchema
+  },
+  find_gaps: {
+    name: "find_gaps",
+    description:
+      "Find knowledge gaps: nodes missing the relations their type normally participates in, based on the dataset's relation definitions (domain and range). Examples: questions (QUE) no result informs, claims (CLM) with no supporting evidence, hypotheses (HYP) nothing tests. Filter by node type, creator and age in days; oldest gaps first. Includes a summary count per kind of gap. Supports pagination via limit/offset/cursor.",
+    schema: FindGapsSchema
+  },
+  get_graph_metrics: {
+    name: "get_graph_metrics",
+    description:
+      "Find the load-bearing nodes of the graph. Computes, over typed relations and text references combined, each node's in/out degree, PageRank (influence), betweenness (bridging between threads) and connected component. Pass a uid for one node's metrics and ranks, or get the top nodes by a metric, optionally filtered by node type. Metrics are computed once per loaded dataset. Supports pagination via limit/offset/cursor.",
+    schema: GetGraphMetricsSchema
+  },
+  get_clusters: {
+    name: "get_clusters",
+    description:
+      "Find the major research threads in the graph using community detection (Louvain) over typed relations and text references. Each cluster lists its member UIDs, dominant node types, main contributors, and representative nodes picked by centrality (PageRank). Optionally restrict to the subgraph around a node. Use this to summarize e.g. 'the graph has five major research threads'. Supports pagination via limit/offset/cursor.",
+    schema: GetClustersSchema
+  },
+  get_backlinks: {
+    name: "get_backlinks",
+    description:
+      "Find who mentions a node: every node whose text references it, most recently modified first, with the passage of text around the mention. 'alsoRelated' marks mentions that are backed by a typed relation too. Supports pagination via limit/offset/cursor.",
+    schema: GetBacklinksSchema
+  },
+  validate_graph: {
+    name: "validate_graph",
+    description:
+      "Check the loaded data for integrity problems: relations pointing at missing nodes, text references to missing nodes, undefined relation types, relations whose endpoint types violate the relation definition's domain/range, duplicate @ids, node titles whose type has no node schema, and titles that match no title grammar pattern. Returns counts per kind and the issues (each with severity error or warning). Supports pagination via limit/offset/cursor.",
+    schema: ValidateGraphSchema
+  },
+  find_nonconforming_relations: {
+    name: "find_nonconforming_relations",
+    description:
+      "List typed relations whose source or destination node type doesn't match the relation definition's domain/range (e.g., a Claim 'Supports' a Claim where the definition says Evidence Supports Claim), plus relations with undefined types or missing endpoints. Each relation shows expected vs actual types; 'patterns' tallies the most common mismatches. Use it to find miscategorized nodes. Supports pagination via limit/offset/cursor.",
+    schema: FindNonconformingRelationsSchema
+  },
+  create_node: {
+    name: "create_node",
+    description:
+      "Create a new discourse node (e.g., a claim worked out in this session) so nobody has to retype it into the graph. The node type must exist in the schema (see get_schema); a UID, creation and modification times are assigned. The node is saved to the dataset's overlay file and is immediately visible to the other tools. Only available when the dataset has an overlay configured.",
+    schema: CreateNodeSchema
+  },
+  create_relation: {
+    name: "create_relation",
+    description:
+      "Create a typed relation (e.g., Supports, Informs, Opposes) between two existing nodes. The relation must fit a relation definition's domain and range (see get_relation_types); e.g., if only Evidence Supports Claim is defined, a Claim cannot Support a Question. Duplicates are rejected. Saved to the dataset's overlay file and immediately visible to the other tools.",
+    schema: CreateRelationSchema
+  },
+  propose_node: {
+    name: "propose_node",
+    description:
+      "Propose a new discourse node for review instead of adding it to the graph. Checked like create_node (the type must exist in the schema, titles must be unique), then stored as a pending draft with an optional note for the reviewer. Proposed nodes are visible to read tools called with includeDrafts, and can be used as endpoints of propose_relation. Only available when the dataset has a drafts file configured.",
+    schema: ProposeNodeSchema
+  },
+  propose_relation: {
+    name: "propose_relation",
+    description:
+      "Propose a typed relation between two nodes for review. Either endpoint may be an existing node or a proposed one. Checked like create_relation (must fit a relation definition's domain and range, no duplicates) and stored as a pending draft.",
+    schema: ProposeRelationSchema
+  },
+  propose_edit: {
+    name: "propose_edit",
+    description:
+      "Propose a change to an existing (or proposed) node's title and/or content for review. The node keeps its UID and creator; the reviewer sees a diff against the node as it is now (see diff_drafts).",
+    schema: ProposeEditSchema
+  },
+  list_drafts: {
+    name: "list_drafts",
+    description:
+      "List proposed changes (drafts) with their status: pending (awaiting review), accepted or rejected. Filter by status, kind (node, relation, edit) and proposer; includes counts per status. Supports pagination via limit/offset/cursor.",
+    schema: ListDraftsSchema
+  },
+  diff_drafts: {
+    name: "diff_drafts",
+    description:
+      "Show what drafts would change: the full proposed node, the relation with its endpoints and whether it conforms to the schema, or for edits the title change and a unified diff of the content. Edits are marked stale when the node changed in the graph after the edit was proposed. Defaults to all pending drafts. Supports pagination via limit/offset/cursor.",
+    schema: DiffDraftsSchema
+  },
+  review_drafts: {
+    name: "review_drafts",
+    description:
+      "Accept or reject drafts by ID. Accepted drafts are included in export_drafts; rejected ones are kept for the record but no longer shown with includeDrafts. Accepting a draft that depends on a node which is neither in the graph nor proposed (e.g. a relation to a rejected node) is refused. Reports drafts whose nodes are missing or not accepted yet.",
+    schema: ReviewDraftsSchema
+  },
+  export_drafts: {
+    name: "export_drafts",
+    description:
+      "Export the accepted drafts as a JSON-LD document whose @graph uses the same entry shapes as the graph export, ready to merge into the overlay file or paste into the source graph. Edits of the same node are folded into one entry. Accepted drafts whose nodes are missing or not accepted are left out and listed as unresolved.",
+    schema: ExportDraftsSchema
+  },
+  diff_snapshots: {
+    name: "diff_snapshots",
+    description:
+      "Compare two dated exports of the dataset (from its history directory), or an export with the served data: nodes added, removed and modified (with which fields changed and a content diff), typed relations added and removed, researchers who appear for the first time, and changes to node schemas and relation definitions. By default compares the previous export with the current data, answering 'what changed since the last export'. Only available when a history directory is configured.",
+    schema: DiffSnapshotsSchema
+  },
+  get_node_history: {
+    name: "get_node_history",
+    description:
+      "Trace one node through the dataset's exports (its history directory plus the served data), oldest first. Each version covers the consecutive exports in which the node looked the same and says what changed from the previous one: added, modified (title, type, content with a unified diff, creator, typed relations gained or lost), removed or restored. The first version includes the full content. Use it to see how a claim or its support evolved. Loads every export, which can take a while on a long history. Only available when a history directory is configured.",
+    schema: GetNodeHistorySchema
+  },
+  export_subgraph: {
+    name: "export_subgraph",
+    description:
+      "Export part of the graph for visualization in Gephi, Cytoscape, yEd or Graphviz, as GraphML, GEXF, Cytoscape.js JSON or DOT. Seed it with node UIDs, a search query and/or the neighborhood around a node (seeds are combined); every typed relation and text reference between the selected nodes is included. Nodes carry label (clean title), nodeType, creator, created, modified and url; edges carry label (relation type) and kind ('relation' or 'textReference'). Returns a summary (node and edge counts) followed by the document text.",
+    schema: ExportSubgraphSchema
   }
 };
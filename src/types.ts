@@ -31,7 +31,7 @@ export const COMMON_NODE_TYPES = [
  */
 export interface DiscourseNode {
   uid: string;              // e.g., "CnOU48Obk" (extracted from @id)
-  nodeType: NodeType | null; // Extracted from [[XXX]] title prefix
+  nodeType: NodeType | null; // From the title prefix (see titleGrammar.ts); null = no grammar matched
   title: string;            // Full original title
   titleClean: string;       // Title without [[TYPE]] prefix
   content: string;          // Full markdown content
@@ -72,10 +72,14 @@ export interface RawRelationDef {
  * Raw relation instance from JSON-LD (actual relationship between nodes)
  */
 export interface RawRelationInstance {
+  "@id"?: string;      // Only on relations created through the write tools
   "@type": "relationInstance";
   predicate: string;   // references a relationDef @id, e.g., "pages:WRCE-4nr9"
   source: string;      // e.g., "pages:gr9lwGbRH"
   destination: string; // e.g., "pages:jU5-zu5Yd"
+  creator?: string;    // Write tools only
+  created?: string;
+  modified?: string;
 }
 
 /**
@@ -111,6 +115,12 @@ export interface RelationInstance {
   sourceUid: string;       // UID of source node
   destinationUid: string;  // UID of destination node
   label: string;           // e.g., "Supports" (resolved from predicate)
+  // Schema conformance (resolved once all entries are loaded)
+  conformsToSchema: boolean;             // Known predicate, endpoint types match domain/range
+  expectedSourceType: NodeType | null;   // From the relationDef domain (null = unchecked)
+  expectedDestinationType: NodeType | null; // From the relationDef range (null = unchecked)
+  sourceType: NodeType | null;           // Actual type of the source node
+  destinationType: NodeType | null;      // Actual type of the destination node
 }
 
 /**
@@ -119,7 +129,7 @@ export interface RelationInstance {
 export interface NodeSchema {
   uid: string;         // e.g., "_CLM-node"
   label: string;       // e.g., "Claim"
-  nodeType: NodeType | null;  // Mapped to NodeType if applicable
+  nodeType: NodeType | null;  // Abbreviation from the UID (e.g., "CLM"), else the label
 }
 
 /**
@@ -0,0 +1,247 @@
+/**
+ * Graph Validator
+ *
+ * Integrity checks over a loaded store. The loader is deliberately lenient
+ * (unresolved predicates become "unknown", links to missing nodes are kept),
+ * so this pass reports what it let through:
+ * - danglingEndpoint: a relation whose source or destination is not a node
+ * - danglingTextReference: a textRefersToNode target that is not a node
+ * - unknownPredicate: a relation whose predicate is not a relationDef
+ * - domainViolation / rangeViolation: a relation whose source / destination
+ *   type differs from the relationDef's domain / range
+ * - duplicateId: an @id used by more than one entry
+ * - unknownNodeType: a node whose title type (per the title grammar) has no nodeSchema
+ * - unmatchedTitle: a node whose title matches no title grammar pattern
+ */
+
+import { DataStore } from "./dataLoader.js";
+import { RelationInstance } from "./types.js";
+
+/**
+ * Kinds of validation issue
+ */
+export type IssueKind =
+  | "danglingEndpoint"
+  | "danglingTextReference"
+  | "unknownPredicate"
+  | "domainViolation"
+  | "rangeViolation"
+  | "duplicateId"
+  | "unknownNodeType"
+  | "unmatchedTitle";
+
+export const ALL_ISSUE_KINDS: IssueKind[] = [
+  "danglingEndpoint",
+  "danglingTextReference",
+  "unknownPredicate",
+  "domainViolation",
+  "rangeViolation",
+  "duplicateId",
+  "unknownNodeType",
+  "unmatchedTitle"
+];
+
+/**
+ * Errors fail `--check`; warnings are reported but tolerated
+ */
+export type IssueSeverity = "error" | "warning";
+
+/**
+ * A single problem found in the data
+ */
+export interface ValidationIssue {
+  kind: IssueKind;
+  severity: IssueSeverity;
+  message: string;
+  /** Node or entry the issue is about */
+  uid?: string;
+  /** Relation the issue is about */
+  relation?: RelationInstance;
+}
+
+/**
+ * Result of validating a store
+ */
+export interface ValidationReport {
+  /** True when there are no errors (warnings allowed) */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Issues per kind */
+  counts: Record<IssueKind, number>;
+  issues: ValidationIssue[];
+  nodeCount: number;
+  relationCount: number;
+}
+
+/**
+ * Relations whose endpoints are missing or whose predicate is unknown
+ */
+function checkRelations(dataStore: DataStore, issues: ValidationIssue[]): void {
+  for (const relation of dataStore.allRelations) {
+    for (const [end, uid] of [
+      ["source", relation.sourceUid],
+      ["destination", relation.destinationUid]
+    ] as const) {
+      if (!dataStore.nodesByUid.has(uid)) {
+        issues.push({
+          kind: "danglingEndpoint",
+          severity: "error",
+          message: `${relation.label} relation ${end} ${uid} is not a node`,
+          uid,
+          relation
+        });
+      }
+    }
+
+    if (!dataStore.relationDefs.has(relation.predicateUid)) {
+      issues.push({
+        kind: "unknownPredicate",
+        severity: "error",
+        message: `Relation ${relation.sourceUid} -> ${relation.destinationUid} uses unknown predicate ${relation.predicateUid}`,
+        relation
+      });
+    }
+  }
+}
+
+/**
+ * Relations whose endpoint types differ from the relationDef domain/range
+ * Definitions whose domain or range schema has no node type are not checked.
+ */
+function checkDomainAndRange(dataStore: DataStore, issues: ValidationIssue[]): void {
+  for (const relation of dataStore.allRelations) {
+    const relDef = dataStore.relationDefs.get(relation.predicateUid);
+    if (!relDef) continue;
+
+    const checks = [
+      [
+        "domainViolation",
+        relation.sourceUid,
+        relation.expectedSourceType,
+        relation.sourceType,
+        relDef.domainLabel,
+        "source"
+      ],
+      [
+        "rangeViolation",
+        relation.destinationUid,
+        relation.expectedDestinationType,
+        relation.destinationType,
+        relDef.rangeLabel,
+        "destination"
+      ]
+    ] as const;
+    for (const [kind, uid, expectedType, actualType, schemaLabel, end] of checks) {
+      if (!expectedType || !dataStore.nodesByUid.has(uid) || actualType === expectedType) continue;
+
+      issues.push({
+        kind,
+        severity: "error",
+        message: `${relDef.label} expects ${schemaLabel} (${expectedType}) as ${end}, but ${uid} is ${actualType ?? "untyped"}`,
+        uid,
+        relation
+      });
+    }
+  }
+}
+
+/**
+ * Text references to nodes that are not in the export
+ * Warnings: references can point at pages outside the discourse graph.
+ */
+function checkTextReferences(dataStore: DataStore, issues: ValidationIssue[]): void {
+  for (const node of dataStore.allNodes) {
+    for (const linkedUid of new Set(node.linkedNodeUids)) {
+      if (!dataStore.nodesByUid.has(linkedUid)) {
+        issues.push({
+          kind: "danglingTextReference",
+          severity: "warning",
+          message: `${node.uid} references ${linkedUid}, which is not a node`,
+          uid: node.uid
+        });
+      }
+    }
+  }
+}
+
+/**
+ * @ids used by more than one entry
+ * Repeated relationDefs are a known export quirk and only warn.
+ */
+function checkDuplicateIds(dataStore: DataStore, issues: ValidationIssue[]): void {
+  for (const [uid, count] of dataStore.duplicateIds) {
+    const onlyRelationDef = dataStore.relationDefs.has(uid) && !dataStore.nodesByUid.has(uid);
+    issues.push({
+      kind: "duplicateId",
+      severity: onlyRelationDef ? "warning" : "error",
+      message: `@id ${uid} appears ${count} times`,
+      uid
+    });
+  }
+}
+
+/**
+ * Nodes whose title type matches no nodeSchema, or whose title matches no
+ * title grammar pattern (warnings: exports can include untyped pages)
+ */
+function checkNodeTypes(dataStore: DataStore, issues: ValidationIssue[]): void {
+  const knownTypes = new Set<string>();
+  for (const schema of dataStore.nodeSchemas.values()) {
+    if (schema.nodeType) knownTypes.add(schema.nodeType);
+  }
+
+  for (const node of dataStore.allNodes) {
+    if (node.nodeType === null) {
+      issues.push({
+        kind: "unmatchedTitle",
+        severity: "warning",
+        message: `${node.uid} title "${node.title}" matches no title grammar pattern`,
+        uid: node.uid
+      });
+    } else if (!knownTypes.has(node.nodeType)) {
+      issues.push({
+        kind: "unknownNodeType",
+        severity: "error",
+        message: `${node.uid} has title type ${node.nodeType}, which matches no node schema`,
+        uid: node.uid
+      });
+    }
+  }
+}
+
+/**
+ * Validate a store
+ *
+ * @param dataStore - The data store
+ * @param kinds - Issue kinds to check (default: all)
+ * @returns Issues grouped in kind order, with counts
+ */
+export function validateGraph(
+  dataStore: DataStore,
+  kinds: IssueKind[] = ALL_ISSUE_KINDS
+): ValidationReport {
+  const found: ValidationIssue[] = [];
+  checkRelations(dataStore, found);
+  checkDomainAndRange(dataStore, found);
+  checkTextReferences(dataStore, found);
+  checkDuplicateIds(dataStore, found);
+  checkNodeTypes(dataStore, found);
+
+  const counts = Object.fromEntries(ALL_ISSUE_KINDS.map(kind => [kind, 0])) as Record<IssueKind, number>;
+  const issues = found
+    .filter(issue => kinds.includes(issue.kind))
+    .sort((a, b) => ALL_ISSUE_KINDS.indexOf(a.kind) - ALL_ISSUE_KINDS.indexOf(b.kind));
+  for (const issue of issues) counts[issue.kind]++;
+
+  const errorCount = issues.filter(issue => issue.severity === "error").length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    counts,
+    issues,
+    nodeCount: dataStore.allNodes.length,
+    relationCount: dataStore.allRelations.length
+  };
+}
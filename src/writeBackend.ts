@@ -0,0 +1,92 @@
+/**
+ * Write Backends
+ *
+ * Where entries created through the write tools are persisted. A backend
+ * only has to store new JSON-LD @graph entries; the dataset reloads
+ * afterwards to pick them up.
+ *
+ * The overlay backend appends to a separate JSON-LD file next to the
+ * export, which loadData merges on top of the export. The export itself is
+ * never modified, so a fresh export can replace it without losing work.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { RawGraphEntry } from "./types.js";
+
+/**
+ * A place new entries can be written to
+ */
+export interface WriteBackend {
+  /** Backend kind, e.g. "overlay" */
+  kind: string;
+  /** Where entries go (shown in dataset info) */
+  location: string;
+  /** Persist entries; resolves once they are durable */
+  append(entries: RawGraphEntry[]): Promise<void>;
+}
+
+/**
+ * Overlay file contents
+ */
+interface OverlayDocument {
+  "@context": Record<string, string>;
+  "@id": string;
+  "@graph": RawGraphEntry[];
+}
+
+/**
+ * Read an overlay file's entries (none if it does not exist yet)
+ */
+async function readOverlay(overlayPath: string): Promise<OverlayDocument> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(overlayPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { "@context": {}, "@id": "overlay", "@graph": [] };
+    }
+    throw error;
+  }
+
+  const document: OverlayDocument = JSON.parse(text);
+  if (!Array.isArray(document["@graph"])) {
+    throw new Error(`No "@graph" array found in ${overlayPath}`);
+  }
+  return document;
+}
+
+/**
+ * Replace a file atomically (write to a temporary file, then rename), so
+ * readers never see a partial file
+ */
+export async function writeFileAtomic(filePath: string, text: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, text);
+  await fs.promises.rename(temp, filePath);
+}
+
+/**
+ * Create a backend that appends entries to an overlay JSON-LD file
+ *
+ * Writes are serialized, and each one replaces the file atomically.
+ *
+ * @param overlayPath - Overlay file (created on first write)
+ */
+export function createOverlayBackend(overlayPath: string): WriteBackend {
+  let queue: Promise<void> = Promise.resolve();
+
+  const append = (entries: RawGraphEntry[]): Promise<void> => {
+    const write = queue.then(async () => {
+      const document = await readOverlay(overlayPath);
+      document["@graph"].push(...entries);
+      await writeFileAtomic(overlayPath, JSON.stringify(document, null, 1));
+    });
+    // Keep the queue going after a failed write
+    queue = write.catch(() => {});
+    return write;
+  };
+
+  return { kind: "overlay", location: overlayPath, append };
+}